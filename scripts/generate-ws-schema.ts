@@ -0,0 +1,25 @@
+/**
+ * Writes the `/ws` protocol as JSON Schema to `schema/`. Run with
+ * `npm run schema:ws` after changing src/api/wsProtocol.ts and commit the output.
+ */
+import fs from 'fs';
+import path from 'path';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { PROTOCOL_VERSION, clientMessageSchema, serverEventSchema } from '../src/api/wsProtocol.js';
+
+const outDir = path.join(process.cwd(), 'schema');
+fs.mkdirSync(outDir, { recursive: true });
+
+for (const [file, name, schema] of [
+  ['ws-client-message.json', 'ClientMessage', clientMessageSchema],
+  ['ws-server-event.json', 'ServerEvent', serverEventSchema]
+] as const) {
+  const jsonSchema = zodToJsonSchema(schema, {
+    name,
+    // Clients should ignore fields added in later releases of the same version
+    removeAdditionalStrategy: 'strict'
+  });
+  const document = { ...jsonSchema, description: `MCP Admin Agent WebSocket protocol, version ${PROTOCOL_VERSION}` };
+  fs.writeFileSync(path.join(outDir, file), JSON.stringify(document, null, 2) + '\n');
+  console.log(`Wrote schema/${file}`);
+}
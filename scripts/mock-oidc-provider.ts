@@ -0,0 +1,123 @@
+/**
+ * A throwaway OpenID Connect provider for trying the agent's login locally.
+ * Every authorization request is approved straight away as MOCK_OIDC_USER
+ * (default `demo`). Run `npm run mock:oidc`, then start the agent with
+ * `OIDC_ISSUER=http://localhost:4010 OIDC_CLIENT_ID=mcp-admin-agent`.
+ * Never expose it: anyone who can reach it can log in.
+ */
+import crypto from 'crypto';
+import http from 'http';
+
+const port = parseInt(process.env.MOCK_OIDC_PORT || '4010', 10);
+const issuer = `http://localhost:${port}`;
+const user = process.env.MOCK_OIDC_USER || 'demo';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = crypto.randomUUID();
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' };
+
+// Authorization codes waiting to be exchanged
+const codes = new Map<string, { clientId: string; redirectUri: string; nonce?: string; challenge?: string }>();
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+  return `${input}.${crypto.sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', issuer);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      end_session_endpoint: `${issuer}/logout`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none', 'client_secret_post', 'client_secret_basic']
+    });
+  }
+
+  if (url.pathname === '/jwks') {
+    return sendJson(res, 200, { keys: [jwk] });
+  }
+
+  if (url.pathname === '/authorize') {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (!redirectUri) {
+      return sendJson(res, 400, { error: 'invalid_request', error_description: 'redirect_uri is required' });
+    }
+    const code = crypto.randomBytes(16).toString('base64url');
+    codes.set(code, {
+      clientId: url.searchParams.get('client_id') ?? '',
+      redirectUri,
+      nonce: url.searchParams.get('nonce') ?? undefined,
+      challenge: url.searchParams.get('code_challenge') ?? undefined
+    });
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', code);
+    const state = url.searchParams.get('state');
+    if (state) target.searchParams.set('state', state);
+    target.searchParams.set('iss', issuer);
+    res.writeHead(302, { Location: target.href });
+    return res.end();
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const form = await readForm(req);
+    const code = form.get('code') ?? '';
+    const grant = codes.get(code);
+    codes.delete(code);
+    if (!grant || form.get('redirect_uri') !== grant.redirectUri) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+    const verifier = form.get('code_verifier');
+    if (grant.challenge && (!verifier || crypto.createHash('sha256').update(verifier).digest('base64url') !== grant.challenge)) {
+      return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+    const now = Math.floor(Date.now() / 1000);
+    return sendJson(res, 200, {
+      access_token: crypto.randomBytes(16).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: 3600,
+      id_token: signIdToken({
+        iss: issuer,
+        sub: user,
+        aud: grant.clientId,
+        iat: now,
+        exp: now + 3600,
+        nonce: grant.nonce,
+        email: `${user}@example.com`,
+        name: user
+      })
+    });
+  }
+
+  if (url.pathname === '/logout') {
+    const target = url.searchParams.get('post_logout_redirect_uri');
+    res.writeHead(target ? 302 : 200, target ? { Location: target } : { 'Content-Type': 'text/plain' });
+    return res.end(target ? undefined : 'Logged out');
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(port, () => {
+  console.log(`Mock OIDC provider at ${issuer}, logging everyone in as "${user}"`);
+});
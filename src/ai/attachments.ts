@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { McpClient, McpPromptMessage, McpResourceContents } from '../mcp/mcpClient.js';
+import { ChatMessage } from './llmProvider.js';
+import { InvalidRequestError } from '../util/errors.js';
+
+export const attachmentSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('resource'), uri: z.string().min(1) }),
+  z.object({
+    type: z.literal('prompt'),
+    name: z.string().min(1),
+    arguments: z.record(z.string()).optional()
+  })
+]);
+
+/** MCP context the user attached to a chat turn */
+export type ChatAttachment = z.infer<typeof attachmentSchema>;
+
+/** Validate the `attachments` field of a chat request; absent means none */
+export function parseAttachments(raw: unknown): ChatAttachment[] {
+  if (raw === undefined || raw === null) return [];
+  const parsed = z.array(attachmentSchema).safeParse(raw);
+  if (!parsed.success) {
+    throw new InvalidRequestError(`Invalid attachments: ${parsed.error.issues[0]?.message ?? 'malformed'}`);
+  }
+  return parsed.data;
+}
+
+function contentsToText(contents: McpResourceContents): string {
+  if (contents.text !== undefined) return contents.text;
+  // Binary data means nothing to a text model; say it was there
+  return `[binary content${contents.mimeType ? ` (${contents.mimeType})` : ''} omitted]`;
+}
+
+function promptMessageToChat(message: McpPromptMessage): ChatMessage {
+  const { content } = message;
+  let text: string;
+  if (content.type === 'text') {
+    text = content.text ?? '';
+  } else if (content.type === 'resource' && content.resource) {
+    text = `Resource ${content.resource.uri}:\n\n${contentsToText(content.resource)}`;
+  } else {
+    text = `[${content.type} content omitted]`;
+  }
+  return { role: message.role, content: text };
+}
+
+/**
+ * Fetch attached resources and expand attached prompts into chat messages,
+ * in the order they were attached. The result goes into the conversation
+ * history ahead of the user's turn so later turns keep the context.
+ */
+export async function resolveAttachments(
+  mcpClient: McpClient,
+  attachments: ChatAttachment[],
+  signal?: AbortSignal
+): Promise<ChatMessage[]> {
+  const messages: ChatMessage[] = [];
+  for (const attachment of attachments) {
+    if (attachment.type === 'resource') {
+      const contents = await mcpClient.readResource(attachment.uri, { signal });
+      const body = contents
+        .map(item => `Resource ${item.uri}${item.mimeType ? ` (${item.mimeType})` : ''}:\n\n${contentsToText(item)}`)
+        .join('\n\n');
+      messages.push({
+        role: 'user',
+        content: body || `Resource ${attachment.uri} is empty.`
+      });
+    } else {
+      const prompt = await mcpClient.getPrompt(attachment.name, attachment.arguments, { signal });
+      messages.push(...prompt.messages.map(promptMessageToChat));
+    }
+  }
+  return messages;
+}
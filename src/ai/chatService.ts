@@ -1,20 +1,16 @@
-import OpenAI from 'openai';
-import { StdioMcpClient, McpToolDefinition } from '../mcp/stdioClient.js';
-
-export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
-  tool_calls?: Array<{
-    id: string;
-    type: 'function';
-    function: { name: string; arguments: string };
-  }>;
-  tool_call_id?: string;
-  name?: string;
-}
+import { v4 as uuid } from 'uuid';
+import { McpClient, McpToolDefinition } from '../mcp/mcpClient.js';
+import { ChatMessage, LlmProviderInfo, LlmToolDefinition, LlmUsage } from './llmProvider.js';
+import { ProviderRegistry } from './providers/index.js';
+import { CompactionReport, ContextManager } from './contextManager.js';
+import { ToolClassification, ToolPolicy } from '../mcp/toolPolicy.js';
+import { LimitName, RateLimitError } from '../limits/rateLimits.js';
+import type { AuditOutcome } from '../audit/auditLog.js';
+
+export type { ChatMessage } from './llmProvider.js';
 
 export interface ChatStreamChunk {
-  type: 'text' | 'tool_call' | 'tool_result' | 'done' | 'error' | 'prompt';
+  type: 'text' | 'tool_call' | 'tool_result' | 'tool_rejected' | 'usage' | 'message' | 'compacted' | 'rate_limited' | 'done' | 'error' | 'prompt';
   content?: string;
   toolName?: string;
   toolArgs?: any;
@@ -22,10 +18,128 @@ export interface ChatStreamChunk {
   error?: string;
   promptId?: string;
   promptParams?: any;
+  usage?: LlmUsage;
+  provider?: string;
+  model?: string;
+  /** A completed message to append to the conversation history */
+  message?: ChatMessage;
+  status?: ChatStatus;
+  /** What was shrunk to fit the model's context window */
+  compaction?: CompactionReport;
+  /** Which limit stopped the turn or refused a tool call */
+  rateLimit?: { limit: LimitName; retryAfterMs?: number };
+  /** Environment a tool call ran against, or the turn's default on `done` */
+  environment?: string;
+}
+
+/**
+ * The session's connected PingOne environments. With more than one, every
+ * tool gets an optional `environment` argument so the model can pick.
+ */
+export interface ChatEnvironments {
+  /** Where calls go when the model doesn't name an environment */
+  active: string;
+  clients: Map<string, McpClient>;
+  /** Shown to the model next to each name, e.g. the PingOne environment ID */
+  descriptions?: Record<string, string>;
+}
+
+export interface ChatOptions {
+  /** Provider ID from the registry; defaults to the deployment's LLM_PROVIDER */
+  providerId?: string;
+  /** Aborts the model stream and any in-flight tool call */
+  signal?: AbortSignal;
+  /** Runs before every model request; throw a RateLimitError to end the turn */
+  beforeModelTurn?: () => void;
+  /** Runs before every tool call; throw a RateLimitError to refuse it */
+  beforeToolCall?: (name: string, args: any) => void;
+  /** Rounds of tool calls allowed for one user message (unlimited if unset or 0) */
+  maxToolIterations?: number;
+  /** Runs once for every tool call the model asked for and that got past the limits */
+  afterToolCall?: (report: ToolCallReport) => void;
+  /** Token usage of each model request, when the provider reports it */
+  onUsage?: (usage: LlmUsage, provider: string, model: string) => void;
+  /** Named environments the model may target; without them every call uses mcpClient */
+  environments?: ChatEnvironments;
+  /**
+   * Stream the whole reply after read-only tool calls. Off for the browser,
+   * which shows the tool result itself; on for clients that never see it.
+   */
+  fullReplies?: boolean;
+}
+
+/** How one tool call in a chat turn ended */
+export interface ToolCallReport {
+  toolName: string;
+  args: any;
+  outcome: AuditOutcome;
+  /** Named environment the call ran against, when the session has several */
+  environment?: string;
+  /** Tools of the MCP client the call went to, which may not be the active environment's */
+  tools: McpToolDefinition[];
+  /** The MCP result, for successful calls */
+  result?: any;
+  error?: string;
+  durationMs: number;
+}
+
+export type ChatStatus = 'completed' | 'cancelled' | 'rate_limited';
+
+/** One tool call of a non-streaming chat turn and how it ended */
+export interface ChatCompletionToolCall {
+  name: string;
+  args: any;
+  environment?: string;
+  result?: any;
+  error?: string;
+  /** Declined at the approval gate; the tool did not run */
+  rejected?: boolean;
+}
+
+export interface ChatCompletionResult {
+  /** The assistant's final reply */
+  message: ChatMessage;
+  toolCalls: ChatCompletionToolCall[];
+  /** Every message the turn added to the conversation, in order */
+  newMessages: ChatMessage[];
+  compactions: CompactionReport[];
+  /** Summed over every model request of the turn */
+  usage: LlmUsage;
+  status: ChatStatus;
+  rateLimited?: ChatStreamChunk['rateLimit'] & { error?: string };
+}
+
+/** Tool argument injected when a session has more than one environment */
+export const ENVIRONMENT_ARGUMENT = 'environment';
+
+// The default prompt keeps replies short because the browser renders tool results itself
+const FULL_REPLIES_PROMPT = `
+
+This client does not display tool results. Ignore the response length instruction above: answer with the data the user asked for, summarized as needed.`;
+
+function rateLimitedChunk(error: RateLimitError): ChatStreamChunk {
+  return {
+    type: 'rate_limited',
+    error: error.message,
+    rateLimit: { limit: error.limit, retryAfterMs: error.retryAfterMs }
+  };
+}
+
+/**
+ * Reject with a cancellation error as soon as the signal fires, even if the
+ * wrapped promise (e.g. a pending user prompt) never settles.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new Error('Chat cancelled'));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error('Chat cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
 }
 
 export class ChatService {
-  private openai: OpenAI;
   private systemPrompt = `You are a helpful AI assistant for Sales Engineers building PingOne demos. You have access to PingOne MCP Server tools that allow you to manage PingOne environments, users, applications, and more.
 
 CRITICAL INSTRUCTION - Response Length:
@@ -50,28 +164,115 @@ Available capabilities include:
 - Configuring authentication policies
 - Managing groups and roles`;
 
-  constructor(apiKey?: string) {
-    this.openai = new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY
-    });
+  constructor(
+    private readonly providers: ProviderRegistry = ProviderRegistry.fromEnv(),
+    private readonly context: ContextManager = new ContextManager(),
+    private readonly toolPolicy: ToolPolicy = ToolPolicy.fromEnv()
+  ) {}
+
+  listProviders(): LlmProviderInfo[] {
+    return this.providers.list();
+  }
+
+  hasProvider(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  get defaultProviderId(): string {
+    return this.providers.defaultId;
   }
 
   /**
-   * Convert MCP tool definitions to OpenAI function format
+   * Convert MCP tool definitions to provider-neutral function definitions
    */
-  private convertMcpToolsToOpenAI(mcpTools: McpToolDefinition[]): OpenAI.Chat.ChatCompletionTool[] {
-    return mcpTools.map(tool => ({
-      type: 'function' as const,
-      function: {
+  private convertMcpTools(mcpTools: McpToolDefinition[], environments?: ChatEnvironments): LlmToolDefinition[] {
+    const names = environments && environments.clients.size > 1 ? Array.from(environments.clients.keys()) : undefined;
+    return mcpTools.map(tool => {
+      const schema = tool.inputSchema || { type: 'object', properties: {}, required: [] };
+      return {
         name: tool.name,
         description: tool.description || `Execute ${tool.name}`,
-        parameters: tool.inputSchema || {
-          type: 'object',
-          properties: {},
-          required: []
-        }
-      }
-    }));
+        parameters: names
+          ? {
+            ...schema,
+            properties: {
+              ...schema.properties,
+              [ENVIRONMENT_ARGUMENT]: {
+                type: 'string',
+                enum: names,
+                description: `Connected PingOne environment to run this tool against (default: ${environments!.active})`
+              }
+            }
+          }
+          : schema
+      };
+    });
+  }
+
+  /** Tells the model which environments it can reach and what the argument is called */
+  private environmentPrompt(environments?: ChatEnvironments): string {
+    if (!environments || environments.clients.size < 2) return '';
+    const lines = Array.from(environments.clients.keys()).map(name => {
+      const description = environments.descriptions?.[name];
+      return `- ${name}${description ? ` (${description})` : ''}${name === environments.active ? ' – default' : ''}`;
+    });
+    return `\n\nThe user has several PingOne environments connected:\n${lines.join('\n')}\nEvery tool takes an optional "${ENVIRONMENT_ARGUMENT}" argument naming the one to use; leave it out for the default. To copy something between environments, read it from one and create it in the other.`;
+  }
+
+  /**
+   * Split the injected environment argument off and find its client. Throws
+   * for unknown names so the model sees the error and can correct itself.
+   */
+  private routeToolCall(
+    args: any,
+    mcpClient: McpClient,
+    environments?: ChatEnvironments
+  ): { args: any; client: McpClient; environment?: string } {
+    if (!environments || environments.clients.size < 2 || !args || typeof args !== 'object') {
+      return { args, client: mcpClient, environment: environments?.active };
+    }
+    const { [ENVIRONMENT_ARGUMENT]: requested, ...rest } = args;
+    const environment = typeof requested === 'string' && requested ? requested : environments.active;
+    const client = environments.clients.get(environment);
+    if (!client) {
+      throw new Error(`Unknown environment "${environment}"; connected: ${Array.from(environments.clients.keys()).join(', ')}`);
+    }
+    return { args: rest, client, environment };
+  }
+
+  /**
+   * Ask the user to confirm a mutating tool call via the prompt flow.
+   * Resolves to a rejection reason, or undefined when the call is approved.
+   */
+  private async requestApproval(
+    toolName: string,
+    args: any,
+    policy: ToolClassification,
+    onPrompt?: (promptId: string, params: any) => Promise<any>,
+    signal?: AbortSignal,
+    environment?: string
+  ): Promise<string | undefined> {
+    const target = environment ? ` in the "${environment}" environment` : '';
+    if (!onPrompt) {
+      return 'No interactive client is connected to approve this call';
+    }
+
+    try {
+      const response = await abortable(onPrompt(uuid(), {
+        kind: 'toolApproval',
+        name: 'Confirm tool call',
+        description: policy.destructive
+          ? `The assistant wants to run ${toolName}${target}. This may delete or overwrite data in your PingOne environment.`
+          : `The assistant wants to run ${toolName}${target}. This may change your PingOne environment.`,
+        toolName,
+        toolArgs: args,
+        environment,
+        destructive: policy.destructive
+      }), signal);
+      return response?.approved === true ? undefined : 'The user rejected this call';
+    } catch (error) {
+      return `Approval was not given: ${(error as Error).message}`;
+    }
   }
 
   /**
@@ -79,48 +280,54 @@ Available capabilities include:
    */
   async *chat(
     messages: ChatMessage[],
-    mcpClient: StdioMcpClient,
+    mcpClient: McpClient,
     onToolCall?: (name: string, args: any) => void,
-    onPrompt?: (promptId: string, params: any) => Promise<any>
+    onPrompt?: (promptId: string, params: any) => Promise<any>,
+    options: ChatOptions = {}
   ): AsyncGenerator<ChatStreamChunk> {
+    const { signal } = options;
     try {
+      const provider = this.providers.get(options.providerId);
+
       // Get available MCP tools
       const mcpTools = mcpClient.listTools();
-      const openaiTools = this.convertMcpToolsToOpenAI(mcpTools);
+      const { environments } = options;
+      const tools = this.convertMcpTools(mcpTools, environments);
 
       // Build messages with system prompt
-      const fullMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-        { role: 'system', content: this.systemPrompt },
-        ...messages.map(msg => {
-          if (msg.role === 'tool') {
-            return {
-              role: 'tool' as const,
-              content: msg.content,
-              tool_call_id: msg.tool_call_id!
-            };
-          }
-          return {
-            role: msg.role as 'user' | 'assistant' | 'system',
-            content: msg.content,
-            tool_calls: msg.tool_calls
-          };
-        })
+      let currentMessages: ChatMessage[] = [
+        {
+          role: 'system',
+          content: this.systemPrompt + (options.fullReplies ? FULL_REPLIES_PROMPT : '') + this.environmentPrompt(environments)
+        },
+        ...messages
       ];
 
       let continueLoop = true;
-      let currentMessages = fullMessages;
-      let justExecutedListTool = false; // Track across loop iterations
+      let justExecutedReadOnlyTool = false; // Track across loop iterations
+      let reportedDroppedMessages = 0;
+      let toolIterations = 0;
+      let limited: RateLimitError | undefined;
 
-      while (continueLoop) {
+      while (continueLoop && !signal?.aborted) {
         continueLoop = false;
 
-        // Call OpenAI with streaming
-        const stream = await this.openai.chat.completions.create({
-          model: process.env.OPENAI_MODEL || 'gpt-4o',
-          messages: currentMessages,
-          tools: openaiTools.length > 0 ? openaiTools : undefined,
-          stream: true
-        });
+        if (options.maxToolIterations && toolIterations >= options.maxToolIterations) {
+          limited = new RateLimitError(
+            'toolIterations',
+            `Stopped after ${toolIterations} rounds of tool calls; send another message to continue`
+          );
+          yield rateLimitedChunk(limited);
+          break;
+        }
+        try {
+          options.beforeModelTurn?.();
+        } catch (error) {
+          if (!(error instanceof RateLimitError)) throw error;
+          limited = error;
+          yield rateLimitedChunk(limited);
+          break;
+        }
 
         let currentToolCalls: Array<{
           id: string;
@@ -128,65 +335,85 @@ Available capabilities include:
           arguments: string;
         }> = [];
         let textContent = '';
-        let toolCallIndex = -1;
 
-        for await (const chunk of stream) {
-          const delta = chunk.choices[0]?.delta;
+        // Only the request is compacted; currentMessages keeps the full turn
+        const fitted = this.context.fitHistory(currentMessages, tools, provider.contextWindow);
+        const dropped = fitted.report?.droppedMessages ?? 0;
+        if (fitted.report && dropped !== reportedDroppedMessages) {
+          reportedDroppedMessages = dropped;
+          yield { type: 'compacted', compaction: fitted.report };
+        }
 
-          // Handle text content
-          if (delta?.content) {
-            textContent += delta.content;
+        try {
+          for await (const event of provider.streamChat({ messages: fitted.messages, tools, signal })) {
+            // Handle text content
+            if (event.type === 'text') {
+              textContent += event.content;
             
-            // Only yield text if we haven't just executed a list tool, or if it's very short
-            if (!justExecutedListTool || textContent.length < 50) {
-              yield {
-                type: 'text',
-                content: delta.content
-              };
-            }
-          }
-
-          // Handle tool calls
-          if (delta?.tool_calls) {
-            for (const toolCall of delta.tool_calls) {
-              if (toolCall.index !== undefined) {
-                toolCallIndex = toolCall.index;
+              // Read-only results are shown formatted in the UI; keep the reply to a short acknowledgement
+              if (options.fullReplies || !justExecutedReadOnlyTool || textContent.length < 50) {
+                yield {
+                  type: 'text',
+                  content: event.content
+                };
               }
+            }
 
-              if (!currentToolCalls[toolCallIndex]) {
-                currentToolCalls[toolCallIndex] = {
-                  id: toolCall.id || '',
+            // Handle tool call deltas
+            if (event.type === 'tool_call_delta') {
+              if (!currentToolCalls[event.index]) {
+                currentToolCalls[event.index] = {
+                  id: '',
                   name: '',
                   arguments: ''
                 };
               }
 
-              if (toolCall.function?.name) {
-                currentToolCalls[toolCallIndex].name = toolCall.function.name;
+              if (event.name) {
+                currentToolCalls[event.index].name = event.name;
               }
-              if (toolCall.function?.arguments) {
-                currentToolCalls[toolCallIndex].arguments += toolCall.function.arguments;
+              if (event.arguments) {
+                currentToolCalls[event.index].arguments += event.arguments;
               }
-              if (toolCall.id) {
-                currentToolCalls[toolCallIndex].id = toolCall.id;
+              if (event.id) {
+                currentToolCalls[event.index].id = event.id;
               }
             }
+
+            if (event.type === 'usage') {
+              options.onUsage?.(event.usage, provider.id, provider.model);
+              yield {
+                type: 'usage',
+                usage: event.usage,
+                provider: provider.id,
+                model: provider.model
+              };
+            }
           }
+        } catch (error) {
+          if (!signal?.aborted) throw error;
+        }
 
-          // Check if finished
-          if (chunk.choices[0]?.finish_reason === 'tool_calls' || chunk.choices[0]?.finish_reason === 'stop') {
-            break;
+        // Keep whatever the model said before it was stopped
+        if (signal?.aborted) {
+          if (textContent) {
+            yield { type: 'message', message: { role: 'assistant', content: textContent } };
           }
+          break;
         }
 
+        // Drop holes left by providers that skip indexes
+        currentToolCalls = currentToolCalls.filter(Boolean);
+
         // If we have tool calls, execute them
         if (currentToolCalls.length > 0) {
           continueLoop = true;
+          toolIterations++;
 
           // Add assistant message with tool calls to history
-          const assistantMessage: OpenAI.Chat.ChatCompletionMessageParam = {
+          const assistantMessage: ChatMessage = {
             role: 'assistant',
-            content: textContent || null,
+            content: textContent,
             tool_calls: currentToolCalls.map(tc => ({
               id: tc.id,
               type: 'function' as const,
@@ -199,57 +426,147 @@ Available capabilities include:
           currentMessages = [...currentMessages, assistantMessage];
 
           // Execute each tool call
-          const toolResults: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+          const toolResults: ChatMessage[] = [];
           
-          // Reset flag, then set if we execute a list tool
-          justExecutedListTool = false;
+          // Reset flag, then set if we execute a read-only tool
+          justExecutedReadOnlyTool = false;
 
           for (const toolCall of currentToolCalls) {
+            // Every tool call needs a result, even ones skipped after cancellation
+            if (signal?.aborted) {
+              toolResults.push({
+                role: 'tool',
+                tool_call_id: toolCall.id,
+                content: JSON.stringify({ error: 'cancelled', message: 'The user cancelled the chat before this call ran' })
+              });
+              continue;
+            }
+            // Once a limit is hit the rest of the batch is refused without asking again
+            if (limited) {
+              toolResults.push({
+                role: 'tool',
+                tool_call_id: toolCall.id,
+                content: JSON.stringify({ error: 'rate_limited', message: limited.message })
+              });
+              continue;
+            }
+
+            let started = Date.now();
+            let args: any;
+            let environment = environments?.active;
+            let client = mcpClient;
+            let reported = false;
+            const reportCall = (outcome: AuditOutcome, detail: { result?: any; error?: string } = {}) => {
+              if (reported) return;
+              reported = true;
+              options.afterToolCall?.({
+                toolName: toolCall.name,
+                args,
+                environment,
+                tools: client.listTools(),
+                outcome,
+                ...detail,
+                durationMs: Date.now() - started
+              });
+            };
+
             try {
-              const args = JSON.parse(toolCall.arguments);
-              
-              // Check if this is a list/get/read type tool
-              const isListTool = toolCall.name.startsWith('list-') || 
-                                 toolCall.name.startsWith('get-') || 
-                                 toolCall.name.startsWith('read-') ||
-                                 toolCall.name.startsWith('fetch-') ||
-                                 toolCall.name.includes('list') ||
-                                 toolCall.name.includes('search');
+              args = JSON.parse(toolCall.arguments || '{}');
+              const route = this.routeToolCall(args, mcpClient, environments);
+              args = route.args;
+              environment = route.environment;
+              client = route.client;
+              // Classified against the environment it goes to, whose tools may differ
+              const policy = this.toolPolicy.classify(client.listTools().find(t => t.name === toolCall.name) ?? toolCall.name);
               
-              if (isListTool) {
-                justExecutedListTool = true;
+              if (policy.readOnly) {
+                justExecutedReadOnlyTool = true;
               }
               
               yield {
                 type: 'tool_call',
                 toolName: toolCall.name,
-                toolArgs: args
+                toolArgs: args,
+                environment
               };
 
+              try {
+                options.beforeToolCall?.(toolCall.name, args);
+              } catch (error) {
+                if (!(error instanceof RateLimitError)) throw error;
+                limited = error;
+                reportCall('rate_limited', { error: error.message });
+                yield rateLimitedChunk(limited);
+                toolResults.push({
+                  role: 'tool',
+                  tool_call_id: toolCall.id,
+                  content: JSON.stringify({ error: 'rate_limited', message: limited.message })
+                });
+                continue;
+              }
+
+              if (policy.requiresApproval) {
+                const rejection = await this.requestApproval(toolCall.name, args, policy, onPrompt, signal, environment);
+                if (rejection) {
+                  reportCall('rejected', { error: rejection });
+                  yield {
+                    type: 'tool_rejected',
+                    toolName: toolCall.name,
+                    toolArgs: args,
+                    error: rejection,
+                    environment
+                  };
+
+                  toolResults.push({
+                    role: 'tool',
+                    tool_call_id: toolCall.id,
+                    content: JSON.stringify({
+                      error: 'tool_call_rejected',
+                      message: `${rejection}. The tool was not executed; do not retry it unless the user asks.`
+                    })
+                  });
+                  continue;
+                }
+              }
+
               if (onToolCall) {
                 onToolCall(toolCall.name, args);
               }
 
-              // Execute via MCP
-              const result = await mcpClient.callTool(toolCall.name, args);
+              // Execute via MCP; the audited duration leaves out the approval wait
+              started = Date.now();
+              const result = await client.callTool(toolCall.name, args, { signal });
+              reportCall(result?.isError ? 'error' : 'success', { result });
 
               yield {
                 type: 'tool_result',
                 toolName: toolCall.name,
-                toolResult: result
+                toolResult: result,
+                environment
               };
 
+              // The UI got the full result above; the model gets what fits
+              const { content, report } = this.context.compactToolResult(toolCall.name, result);
+              if (report) {
+                yield { type: 'compacted', compaction: report };
+              }
+
               toolResults.push({
                 role: 'tool',
                 tool_call_id: toolCall.id,
-                content: JSON.stringify(result)
+                content
               });
             } catch (error) {
               const errorMsg = (error as Error).message;
-              yield {
-                type: 'error',
-                error: `Tool ${toolCall.name} failed: ${errorMsg}`
-              };
+              reportCall(signal?.aborted ? 'cancelled' : 'error', { error: errorMsg });
+              if (!signal?.aborted) {
+                yield {
+                  type: 'error',
+                  error: `Tool ${toolCall.name} failed: ${errorMsg}`,
+                  toolName: toolCall.name,
+                  environment
+                };
+              }
 
               toolResults.push({
                 role: 'tool',
@@ -261,11 +578,37 @@ Available capabilities include:
 
           // Add tool results to messages and continue loop
           currentMessages = [...currentMessages, ...toolResults];
+
+          // Persist the call and its results together so history never holds
+          // an assistant tool call without matching tool messages
+          for (const message of [assistantMessage, ...toolResults]) {
+            yield { type: 'message', message };
+          }
+
+          // Don't go back to the model after a refused call; it would only retry
+          if (limited) {
+            continueLoop = false;
+          }
+        } else if (textContent) {
+          // A turn that ends without text leaves nothing to store; an empty
+          // assistant message would be refused by some providers next turn
+          yield {
+            type: 'message',
+            message: { role: 'assistant', content: textContent }
+          };
         }
       }
 
-      yield { type: 'done' };
+      yield {
+        type: 'done',
+        status: signal?.aborted ? 'cancelled' : limited ? 'rate_limited' : 'completed',
+        environment: environments?.active
+      };
     } catch (error) {
+      if (signal?.aborted) {
+        yield { type: 'done', status: 'cancelled' };
+        return;
+      }
       yield {
         type: 'error',
         error: (error as Error).message
@@ -274,41 +617,73 @@ Available capabilities include:
   }
 
   /**
-   * Non-streaming chat for REST API
+   * Non-streaming chat for REST API: runs the whole turn and returns the
+   * final reply, each tool call with its outcome and the turn's transcript
    */
   async chatCompletion(
     messages: ChatMessage[],
-    mcpClient: StdioMcpClient
-  ): Promise<{ message: ChatMessage; toolCalls: Array<{ name: string; args: any; result: any }> }> {
-    const toolCalls: Array<{ name: string; args: any; result: any }> = [];
-    let responseContent = '';
-    let responseToolCalls: any[] = [];
-
-    for await (const chunk of this.chat(messages, mcpClient, (name, args) => {
-      // Track tool calls
-    })) {
-      if (chunk.type === 'text' && chunk.content) {
-        responseContent += chunk.content;
-      } else if (chunk.type === 'tool_call' && chunk.toolName) {
-        const tc = { name: chunk.toolName, args: chunk.toolArgs, result: null };
-        toolCalls.push(tc);
-      } else if (chunk.type === 'tool_result' && chunk.toolResult) {
+    mcpClient: McpClient,
+    options: ChatOptions = {}
+  ): Promise<ChatCompletionResult> {
+    const toolCalls: ChatCompletionToolCall[] = [];
+    const newMessages: ChatMessage[] = [];
+    const compactions: CompactionReport[] = [];
+    const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+    let rateLimited: ChatCompletionResult['rateLimited'];
+    let status: ChatStatus = 'completed';
+
+    for await (const chunk of this.chat(messages, mcpClient, undefined, undefined, options)) {
+      if (chunk.type === 'tool_call' && chunk.toolName) {
+        toolCalls.push({ name: chunk.toolName, args: chunk.toolArgs, environment: chunk.environment });
+      } else if (chunk.type === 'tool_result' || chunk.type === 'tool_rejected') {
+        // Results arrive right after their call, so they belong to the last one
         const lastCall = toolCalls[toolCalls.length - 1];
-        if (lastCall) {
+        if (lastCall && chunk.type === 'tool_result') {
           lastCall.result = chunk.toolResult;
+        } else if (lastCall) {
+          lastCall.rejected = true;
+          lastCall.error = chunk.error;
         }
+      } else if (chunk.type === 'message' && chunk.message) {
+        newMessages.push(chunk.message);
+      } else if (chunk.type === 'usage' && chunk.usage) {
+        usage.inputTokens += chunk.usage.inputTokens;
+        usage.outputTokens += chunk.usage.outputTokens;
+      } else if (chunk.type === 'compacted' && chunk.compaction) {
+        compactions.push(chunk.compaction);
+      } else if (chunk.type === 'rate_limited' && chunk.rateLimit) {
+        // Nothing happened yet: refuse the whole request so REST can answer 429
+        if (newMessages.length === 0 && toolCalls.length === 0) {
+          throw new RateLimitError(chunk.rateLimit.limit, chunk.error ?? 'Rate limited', chunk.rateLimit.retryAfterMs);
+        }
+        rateLimited = { ...chunk.rateLimit, error: chunk.error };
       } else if (chunk.type === 'error') {
+        // A failed tool is reported to the model, which carries on; anything else ends the turn
+        if (chunk.toolName) {
+          const lastCall = toolCalls[toolCalls.length - 1];
+          if (lastCall?.name === chunk.toolName && lastCall.result === undefined && !lastCall.error) {
+            lastCall.error = chunk.error;
+          } else {
+            // Failed before it was announced, e.g. on malformed arguments
+            toolCalls.push({ name: chunk.toolName, args: undefined, environment: chunk.environment, error: chunk.error });
+          }
+          continue;
+        }
         throw new Error(chunk.error);
+      } else if (chunk.type === 'done' && chunk.status) {
+        status = chunk.status;
       }
     }
 
+    const reply = [...newMessages].reverse().find(m => m.role === 'assistant' && !m.tool_calls?.length);
     return {
-      message: {
-        role: 'assistant',
-        content: responseContent,
-        tool_calls: responseToolCalls.length > 0 ? responseToolCalls : undefined
-      },
-      toolCalls
+      message: reply ?? { role: 'assistant', content: '' },
+      toolCalls,
+      newMessages,
+      compactions,
+      usage,
+      status,
+      rateLimited
     };
   }
 }
@@ -0,0 +1,212 @@
+import { ChatMessage, LlmToolDefinition } from './llmProvider.js';
+import { findListPath } from '../mcp/toolResult.js';
+
+export interface ContextBudget {
+  /** Prompt tokens allowed per model request: system prompt, history and tool schemas */
+  maxContextTokens: number;
+  /** Largest single tool result handed to the model */
+  maxToolResultTokens: number;
+}
+
+/** What was shrunk to keep a request inside the budget */
+export interface CompactionReport {
+  reason: 'tool_result' | 'history';
+  /** Set for tool_result compactions */
+  toolName?: string;
+  originalTokens: number;
+  compactedTokens: number;
+  /** Set for history compactions: messages summarized away */
+  droppedMessages?: number;
+}
+
+const DEFAULT_BUDGET: ContextBudget = {
+  maxContextTokens: 100_000,
+  maxToolResultTokens: 8_000
+};
+
+// A rough estimate is enough for budgeting and works the same for every provider
+const CHARS_PER_TOKEN = 4;
+
+// Characters kept from each dropped user request in the history summary
+const SUMMARY_REQUEST_CHARS = 200;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = estimateTokens(message.content) + 4;
+  for (const call of message.tool_calls ?? []) {
+    tokens += estimateTokens(call.function.name) + estimateTokens(call.function.arguments);
+  }
+  return tokens;
+}
+
+function estimateToolTokens(tools: LlmToolDefinition[]): number {
+  return estimateTokens(JSON.stringify(tools));
+}
+
+function replaceAt(data: any, path: string[], value: unknown): any {
+  if (path.length === 0) return value;
+  const [key, ...rest] = path;
+  return { ...data, [key]: replaceAt(data[key], rest, value) };
+}
+
+/**
+ * Keeps what is sent to the model inside a token budget. Tool results are cut
+ * down before they enter the history; whole older turns are replaced by a
+ * short summary when the history as a whole gets too long. Callers keep the
+ * full data for the UI; only the model's view is compacted.
+ */
+export class ContextManager {
+  constructor(private readonly budget: ContextBudget = ContextManager.budgetFromEnv()) {}
+
+  static budgetFromEnv(env: NodeJS.ProcessEnv = process.env): ContextBudget {
+    const read = (name: string, fallback: number) => {
+      const value = parseInt(env[name] || '', 10);
+      return Number.isNaN(value) || value <= 0 ? fallback : value;
+    };
+    return {
+      maxContextTokens: read('CONTEXT_MAX_TOKENS', DEFAULT_BUDGET.maxContextTokens),
+      maxToolResultTokens: read('CONTEXT_TOOL_RESULT_MAX_TOKENS', DEFAULT_BUDGET.maxToolResultTokens)
+    };
+  }
+
+  /**
+   * Serialize a tool result for the model. Oversized results keep as many
+   * leading list items as fit, or are cut at the character limit, with a
+   * note telling the model that it only sees part of the data.
+   */
+  compactToolResult(toolName: string, result: unknown): { content: string; report?: CompactionReport } {
+    const content = JSON.stringify(result) ?? 'null';
+    const originalTokens = estimateTokens(content);
+    if (originalTokens <= this.budget.maxToolResultTokens) {
+      return { content };
+    }
+
+    const maxChars = this.budget.maxToolResultTokens * CHARS_PER_TOKEN;
+    const compacted = this.shrinkMcpResult(result, maxChars) ?? this.cut(content, maxChars);
+    return {
+      content: compacted,
+      report: {
+        reason: 'tool_result',
+        toolName,
+        originalTokens,
+        compactedTokens: estimateTokens(compacted)
+      }
+    };
+  }
+
+  /**
+   * Fit a request into the context budget by summarizing the oldest turns.
+   * System messages and the latest turn (the last user message and everything
+   * after it) are always kept, so tool calls stay paired with their results.
+   */
+  fitHistory(
+    messages: ChatMessage[],
+    tools: LlmToolDefinition[] = [],
+    maxContextTokens = this.budget.maxContextTokens
+  ): { messages: ChatMessage[]; report?: CompactionReport } {
+    const toolTokens = estimateToolTokens(tools);
+    const total = (list: ChatMessage[]) =>
+      list.reduce((sum, m) => sum + estimateMessageTokens(m), toolTokens);
+
+    const originalTokens = total(messages);
+    if (originalTokens <= maxContextTokens) {
+      return { messages };
+    }
+
+    const system = messages.filter(m => m.role === 'system');
+    const rest = messages.filter(m => m.role !== 'system');
+
+    // Turn boundaries are user messages; the first one starts turn 0
+    const turnStarts = rest
+      .map((m, i) => (m.role === 'user' ? i : -1))
+      .filter(i => i >= 0);
+
+    let dropUntil = 0;
+    let compacted = messages;
+    for (const start of turnStarts) {
+      if (start === 0) continue;
+      dropUntil = start;
+      compacted = [...system, this.summarize(rest.slice(0, dropUntil)), ...rest.slice(dropUntil)];
+      if (total(compacted) <= maxContextTokens) break;
+    }
+
+    if (dropUntil === 0) {
+      // A single turn that is too large on its own; nothing older to drop
+      return { messages };
+    }
+    return {
+      messages: compacted,
+      report: {
+        reason: 'history',
+        originalTokens,
+        compactedTokens: total(compacted),
+        droppedMessages: dropUntil
+      }
+    };
+  }
+
+  /** Stand-in for dropped turns: what the user asked, without tool output */
+  private summarize(dropped: ChatMessage[]): ChatMessage {
+    const requests = dropped
+      .filter(m => m.role === 'user' && m.content)
+      .map(m => `- ${m.content.length > SUMMARY_REQUEST_CHARS ? `${m.content.slice(0, SUMMARY_REQUEST_CHARS)}…` : m.content}`);
+    const toolCalls = dropped.reduce((n, m) => n + (m.tool_calls?.length ?? 0), 0);
+
+    const lines = [
+      `[${dropped.length} earlier messages were removed to fit the context window.`,
+      `They included ${toolCalls} tool calls; call the tools again if you need that data.]`
+    ];
+    if (requests.length > 0) {
+      lines.push('Earlier requests from the user:', ...requests);
+    }
+    return { role: 'system', content: lines.join('\n') };
+  }
+
+  /**
+   * MCP tool results carry their payload as text content, usually a JSON
+   * array or an object wrapping one. Keep the leading items that fit.
+   */
+  private shrinkMcpResult(result: any, maxChars: number): string | undefined {
+    const text = result?.content?.find?.((c: any) => c?.type === 'text')?.text;
+    if (typeof text !== 'string') return undefined;
+
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+
+    const path = findListPath(data);
+    if (!path) return undefined;
+    const items: any[] = path.reduce((node, key) => node[key], data);
+    if (items.length === 0) return undefined;
+
+    const render = (count: number) => {
+      const payload = replaceAt(data, path, items.slice(0, count));
+      return JSON.stringify({
+        content: [{ type: 'text', text: JSON.stringify(payload) }],
+        truncated: `Showing ${count} of ${items.length} items. The user sees the full result; ` +
+          'use filters or paging to look at the rest.'
+      });
+    };
+
+    // Binary search for the largest prefix that fits
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (render(mid).length <= maxChars) low = mid;
+      else high = mid - 1;
+    }
+    return low > 0 ? render(low) : undefined;
+  }
+
+  private cut(content: string, maxChars: number): string {
+    return `${content.slice(0, maxChars)}… [truncated: ${content.length - maxChars} of ${content.length} characters omitted. ` +
+      'The user sees the full result; use filters or paging to look at the rest.]';
+  }
+}
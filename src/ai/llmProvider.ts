@@ -0,0 +1,67 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: Array<{
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+  }>;
+  tool_call_id?: string;
+  name?: string;
+}
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Provider-neutral streaming events. Tool calls arrive as deltas keyed by
+ * index; ChatService assembles them into complete calls.
+ */
+export type LlmStreamEvent =
+  | { type: 'text'; content: string }
+  | { type: 'tool_call_delta'; index: number; id?: string; name?: string; arguments?: string }
+  | { type: 'usage'; usage: LlmUsage };
+
+export interface LlmChatRequest {
+  messages: ChatMessage[];
+  tools: LlmToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly id: string;
+  readonly kind: LlmProviderKind;
+  readonly model: string;
+  /** Prompt token limit when smaller than the deployment's CONTEXT_MAX_TOKENS */
+  readonly contextWindow?: number;
+  streamChat(request: LlmChatRequest): AsyncIterable<LlmStreamEvent>;
+}
+
+export type LlmProviderKind = 'openai' | 'openai-compatible' | 'anthropic';
+
+export interface LlmProviderConfig {
+  id: string;
+  kind: LlmProviderKind;
+  model: string;
+  label?: string;
+  apiKey?: string;
+  baseURL?: string;
+  streamUsage?: boolean;
+  maxTokens?: number;
+  contextWindow?: number;
+}
+
+export interface LlmProviderInfo {
+  id: string;
+  kind: LlmProviderKind;
+  model: string;
+  label: string;
+}
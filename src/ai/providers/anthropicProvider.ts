@@ -0,0 +1,148 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  ChatMessage,
+  LlmChatRequest,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderKind,
+  LlmStreamEvent,
+  LlmToolDefinition
+} from '../llmProvider.js';
+
+/**
+ * Provider for Anthropic-style Messages APIs. Translates the OpenAI-shaped
+ * chat history used by ChatService into content blocks and back.
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly id: string;
+  readonly kind: LlmProviderKind = 'anthropic';
+  readonly model: string;
+  readonly contextWindow?: number;
+  private client?: Anthropic;
+
+  constructor(private readonly config: LlmProviderConfig) {
+    this.id = config.id;
+    this.model = config.model;
+    this.contextWindow = config.contextWindow;
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseURL
+      });
+    }
+    return this.client;
+  }
+
+  private convertTools(tools: LlmToolDefinition[]): Anthropic.Tool[] {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: { type: 'object', ...tool.parameters }
+    }));
+  }
+
+  /**
+   * System messages move to the top-level `system` field; tool results become
+   * `tool_result` blocks in a user turn, merged when several follow each other.
+   * Messages with no content are dropped, since the API rejects them.
+   */
+  private convertMessages(messages: ChatMessage[]): { system: string; messages: Anthropic.MessageParam[] } {
+    const systemParts: string[] = [];
+    const converted: Anthropic.MessageParam[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        systemParts.push(msg.content);
+        continue;
+      }
+
+      if (msg.role === 'tool') {
+        const block: Anthropic.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: msg.tool_call_id!,
+          content: msg.content
+        };
+        const last = converted[converted.length - 1];
+        if (last && last.role === 'user' && Array.isArray(last.content) &&
+            last.content.every(b => b.type === 'tool_result')) {
+          last.content.push(block);
+        } else {
+          converted.push({ role: 'user', content: [block] });
+        }
+        continue;
+      }
+
+      if (msg.role === 'assistant' && msg.tool_calls?.length) {
+        const blocks: Anthropic.ContentBlockParam[] = [];
+        if (msg.content) {
+          blocks.push({ type: 'text', text: msg.content });
+        }
+        for (const tc of msg.tool_calls) {
+          let input: unknown = {};
+          try {
+            input = tc.function.arguments ? JSON.parse(tc.function.arguments) : {};
+          } catch {
+            // Keep the call in history even if the model produced bad JSON
+          }
+          blocks.push({ type: 'tool_use', id: tc.id, name: tc.function.name, input });
+        }
+        converted.push({ role: 'assistant', content: blocks });
+        continue;
+      }
+
+      if (!msg.content) continue;
+      converted.push({ role: msg.role, content: msg.content });
+    }
+
+    return { system: systemParts.join('\n\n'), messages: converted };
+  }
+
+  async *streamChat(request: LlmChatRequest): AsyncIterable<LlmStreamEvent> {
+    const { system, messages } = this.convertMessages(request.messages);
+    const stream = await this.getClient().messages.create({
+      model: this.model,
+      max_tokens: this.config.maxTokens ?? 4096,
+      system: system || undefined,
+      messages,
+      tools: request.tools.length > 0 ? this.convertTools(request.tools) : undefined,
+      stream: true
+    }, { signal: request.signal });
+
+    // Anthropic indexes all content blocks; tool calls need their own sequence
+    const toolIndexByBlock = new Map<number, number>();
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+        outputTokens = event.message.usage.output_tokens;
+      } else if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+        const index = toolIndexByBlock.size;
+        toolIndexByBlock.set(event.index, index);
+        yield {
+          type: 'tool_call_delta',
+          index,
+          id: event.content_block.id,
+          name: event.content_block.name
+        };
+      } else if (event.type === 'content_block_delta') {
+        if (event.delta.type === 'text_delta') {
+          yield { type: 'text', content: event.delta.text };
+        } else if (event.delta.type === 'input_json_delta') {
+          const index = toolIndexByBlock.get(event.index);
+          if (index !== undefined) {
+            yield { type: 'tool_call_delta', index, arguments: event.delta.partial_json };
+          }
+        }
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage.output_tokens;
+      }
+    }
+
+    yield { type: 'usage', usage: { inputTokens, outputTokens } };
+  }
+}
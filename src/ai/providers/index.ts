@@ -0,0 +1,103 @@
+import { LlmProvider, LlmProviderConfig, LlmProviderInfo } from '../llmProvider.js';
+import { OpenAIProvider } from './openaiProvider.js';
+import { AnthropicProvider } from './anthropicProvider.js';
+import { createLogger } from '../../util/logger.js';
+
+export function createProvider(config: LlmProviderConfig): LlmProvider {
+  switch (config.kind) {
+    case 'openai':
+    case 'openai-compatible':
+      return new OpenAIProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    default:
+      throw new Error(`Unknown LLM provider kind: ${(config as LlmProviderConfig).kind}`);
+  }
+}
+
+/**
+ * Build provider configs from environment variables. OpenAI is always
+ * registered for backwards compatibility; the others are opt-in.
+ */
+export function loadProviderConfigs(env: NodeJS.ProcessEnv = process.env): LlmProviderConfig[] {
+  const configs: LlmProviderConfig[] = [
+    {
+      id: 'openai',
+      kind: 'openai',
+      label: 'OpenAI',
+      model: env.OPENAI_MODEL || 'gpt-4o',
+      apiKey: env.OPENAI_API_KEY
+    }
+  ];
+
+  if (env.OPENAI_COMPATIBLE_BASE_URL) {
+    configs.push({
+      id: 'openai-compatible',
+      kind: 'openai-compatible',
+      label: env.OPENAI_COMPATIBLE_LABEL || 'Self-hosted',
+      model: env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+      baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+      streamUsage: env.OPENAI_COMPATIBLE_STREAM_USAGE !== 'false',
+      contextWindow: env.OPENAI_COMPATIBLE_CONTEXT_WINDOW ? parseInt(env.OPENAI_COMPATIBLE_CONTEXT_WINDOW, 10) : undefined
+    });
+  }
+
+  if (env.ANTHROPIC_API_KEY) {
+    configs.push({
+      id: 'anthropic',
+      kind: 'anthropic',
+      label: 'Anthropic',
+      model: env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+      apiKey: env.ANTHROPIC_API_KEY,
+      baseURL: env.ANTHROPIC_BASE_URL,
+      maxTokens: env.ANTHROPIC_MAX_TOKENS ? parseInt(env.ANTHROPIC_MAX_TOKENS, 10) : undefined
+    });
+  }
+
+  return configs;
+}
+
+export class ProviderRegistry {
+  private providers = new Map<string, LlmProvider>();
+  private labels = new Map<string, string>();
+  readonly defaultId: string;
+
+  constructor(configs: LlmProviderConfig[], defaultId?: string) {
+    for (const config of configs) {
+      this.providers.set(config.id, createProvider(config));
+      this.labels.set(config.id, config.label || config.id);
+    }
+    const fallback = configs[0]?.id;
+    if (defaultId && !this.providers.has(defaultId)) {
+      createLogger('llm').warn('Default provider is not configured, using the first one', { provider: defaultId, fallback });
+    }
+    this.defaultId = defaultId && this.providers.has(defaultId) ? defaultId : fallback;
+  }
+
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ProviderRegistry {
+    return new ProviderRegistry(loadProviderConfigs(env), env.LLM_PROVIDER);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  get(id?: string): LlmProvider {
+    const provider = this.providers.get(id || this.defaultId);
+    if (!provider) {
+      throw new Error(`LLM provider not configured: ${id}`);
+    }
+    return provider;
+  }
+
+  list(): LlmProviderInfo[] {
+    return Array.from(this.providers.values()).map(provider => ({
+      id: provider.id,
+      kind: provider.kind,
+      model: provider.model,
+      label: this.labels.get(provider.id) || provider.id
+    }));
+  }
+}
@@ -0,0 +1,119 @@
+import OpenAI from 'openai';
+import {
+  ChatMessage,
+  LlmChatRequest,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderKind,
+  LlmStreamEvent,
+  LlmToolDefinition
+} from '../llmProvider.js';
+
+/**
+ * Provider for the OpenAI API and any server exposing an OpenAI-compatible
+ * chat completions endpoint (Ollama, vLLM, LM Studio, ...).
+ */
+export class OpenAIProvider implements LlmProvider {
+  readonly id: string;
+  readonly kind: LlmProviderKind;
+  readonly model: string;
+  readonly contextWindow?: number;
+  private client?: OpenAI;
+
+  constructor(private readonly config: LlmProviderConfig) {
+    this.id = config.id;
+    this.kind = config.kind;
+    this.model = config.model;
+    this.contextWindow = config.contextWindow;
+  }
+
+  // Created lazily so a missing API key only fails when the provider is used
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseURL
+      });
+    }
+    return this.client;
+  }
+
+  private convertTools(tools: LlmToolDefinition[]): OpenAI.Chat.ChatCompletionTool[] {
+    return tools.map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+  }
+
+  private convertMessage(msg: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        content: msg.content,
+        tool_call_id: msg.tool_call_id!
+      };
+    }
+    if (msg.role === 'assistant') {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.tool_calls
+      };
+    }
+    return {
+      role: msg.role,
+      content: msg.content
+    };
+  }
+
+  async *streamChat(request: LlmChatRequest): AsyncIterable<LlmStreamEvent> {
+    const streamUsage = this.config.streamUsage ?? true;
+    const stream = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: request.messages.map(msg => this.convertMessage(msg)),
+      tools: request.tools.length > 0 ? this.convertTools(request.tools) : undefined,
+      stream: true,
+      stream_options: streamUsage ? { include_usage: true } : undefined
+    }, { signal: request.signal });
+
+    let toolCallIndex = -1;
+
+    // Keep reading after finish_reason: the usage chunk arrives last
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+
+      if (delta?.content) {
+        yield { type: 'text', content: delta.content };
+      }
+
+      if (delta?.tool_calls) {
+        for (const toolCall of delta.tool_calls) {
+          if (toolCall.index !== undefined) {
+            toolCallIndex = toolCall.index;
+          }
+          yield {
+            type: 'tool_call_delta',
+            index: toolCallIndex,
+            id: toolCall.id || undefined,
+            name: toolCall.function?.name || undefined,
+            arguments: toolCall.function?.arguments || undefined
+          };
+        }
+      }
+
+      if (chunk.usage) {
+        yield {
+          type: 'usage',
+          usage: {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens
+          }
+        };
+      }
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import express from 'express';
+import { SessionManager } from '../mcp/sessionManager.js';
+import { createLogger } from '../util/logger.js';
+
+const log = createLogger('admin');
+
+const KILL_SIGNALS: readonly NodeJS.Signals[] = ['SIGTERM', 'SIGKILL'];
+const NOTICE_LEVELS = ['info', 'warning'] as const;
+const MAX_NOTICE_LENGTH = 1000;
+
+function digest(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+/**
+ * `Authorization: Bearer <ADMIN_TOKEN>` on every request. Without a token
+ * configured the whole API answers 404, so it is off unless asked for.
+ */
+function requireAdminToken(token: string | undefined): express.RequestHandler {
+  // Compared as hashes so timingSafeEqual sees equal lengths
+  const expected = token ? digest(token) : undefined;
+  return (req, res, next) => {
+    if (!expected) {
+      return res.status(404).json({ error: 'The admin API is disabled; set ADMIN_TOKEN to enable it' });
+    }
+    const header = req.get('Authorization') ?? '';
+    const given = digest(header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '');
+    if (!crypto.timingSafeEqual(given, expected)) {
+      log.warn('Rejected admin request', { method: req.method, path: req.path, ip: req.ip });
+      return res.status(401).json({ error: 'Invalid admin token' });
+    }
+    next();
+  };
+}
+
+/**
+ * Operator endpoints for the sessions live on this pod: inspect them, end
+ * them, restart or kill their MCP servers and broadcast a notice. Sessions
+ * held by other pods are not visible here; call each pod directly.
+ */
+export function buildAdminRouter(sessionManager: SessionManager, adminToken = process.env.ADMIN_TOKEN) {
+  const router = express.Router();
+  router.use(requireAdminToken(adminToken));
+  router.use(express.json());
+
+  router.get('/sessions', (_req, res) => {
+    res.json({ podId: sessionManager.pod.id, sessions: sessionManager.listSessionSummaries() });
+  });
+
+  router.get('/sessions/:id', (req, res) => {
+    const summary = sessionManager.getSessionSummary(req.params.id);
+    if (!summary) {
+      return res.status(404).json({ error: `Session ${req.params.id} is not live on this pod` });
+    }
+    res.json(summary);
+  });
+
+  router.delete('/sessions/:id', async (req, res) => {
+    const message = typeof req.body?.message === 'string' && req.body.message ? req.body.message : undefined;
+    try {
+      if (!(await sessionManager.terminateSession(req.params.id, message))) {
+        return res.status(404).json({ error: `Session ${req.params.id} is not live on this pod` });
+      }
+      res.json({ terminated: req.params.id });
+    } catch (e) {
+      res.status(500).json({ error: (e as Error).message });
+    }
+  });
+
+  // Shared checks for the MCP actions: the session is here and the environment is connected
+  const connectedEnvironment = (req: express.Request, res: express.Response) => {
+    const summary = sessionManager.getSessionSummary(req.params.id);
+    if (!summary) {
+      res.status(404).json({ error: `Session ${req.params.id} is not live on this pod` });
+      return undefined;
+    }
+    const environment = summary.environments.find(e => e.name === req.params.name);
+    if (!environment) {
+      res.status(404).json({ error: `Unknown environment: ${req.params.name}` });
+      return undefined;
+    }
+    if (!environment.connected) {
+      res.status(409).json({ error: `Environment ${environment.name} is not connected` });
+      return undefined;
+    }
+    return environment;
+  };
+
+  const environmentAfter = (sessionId: string, name: string) =>
+    sessionManager.getSessionSummary(sessionId)?.environments.find(e => e.name === name);
+
+  router.post('/sessions/:id/environments/:name/restart', async (req, res) => {
+    if (!connectedEnvironment(req, res)) return;
+    try {
+      await sessionManager.restartMcpClient(req.params.id, req.params.name);
+      res.json({ environment: environmentAfter(req.params.id, req.params.name) });
+    } catch (e) {
+      res.status(502).json({ error: (e as Error).message, environment: environmentAfter(req.params.id, req.params.name) });
+    }
+  });
+
+  router.post('/sessions/:id/environments/:name/kill', (req, res) => {
+    const environment = connectedEnvironment(req, res);
+    if (!environment) return;
+    const signal = req.body?.signal ?? 'SIGKILL';
+    if (!KILL_SIGNALS.includes(signal)) {
+      return res.status(400).json({ error: `"signal" must be one of ${KILL_SIGNALS.join(', ')}` });
+    }
+    if (environment.transport !== 'stdio') {
+      return res.status(409).json({ error: 'Only stdio MCP servers run as a local process' });
+    }
+    try {
+      const killed = sessionManager.killMcpProcess(req.params.id, req.params.name, signal);
+      res.json({ killed, pid: environment.pid, signal });
+    } catch (e) {
+      res.status(500).json({ error: (e as Error).message });
+    }
+  });
+
+  router.post('/notice', (req, res) => {
+    const { message, level = 'info' } = req.body ?? {};
+    if (typeof message !== 'string' || !message.trim() || message.length > MAX_NOTICE_LENGTH) {
+      return res.status(400).json({ error: `"message" must be a non-empty string of at most ${MAX_NOTICE_LENGTH} characters` });
+    }
+    if (!NOTICE_LEVELS.includes(level)) {
+      return res.status(400).json({ error: `"level" must be one of ${NOTICE_LEVELS.join(', ')}` });
+    }
+    const webSockets = sessionManager.broadcastNotice(message.trim(), level);
+    res.json({ podId: sessionManager.pod.id, webSockets });
+  });
+
+  return router;
+}
@@ -0,0 +1,59 @@
+import type express from 'express';
+import type { ChatStreamChunk } from '../ai/chatService.js';
+import type { ServerEvent } from './wsProtocol.js';
+
+/**
+ * The client event for a chat chunk, as sent over the WebSocket and as SSE
+ * from `POST /api/chat`. `message` chunks have no event: they are history
+ * for the server to store.
+ */
+export function chatChunkEvent(chunk: ChatStreamChunk, conversationId: string): ServerEvent | undefined {
+  switch (chunk.type) {
+    case 'text':
+      return chunk.content ? { type: 'chatDelta', content: chunk.content } : undefined;
+    case 'tool_call':
+      return { type: 'chatToolCall', toolName: chunk.toolName, toolArgs: chunk.toolArgs, environment: chunk.environment };
+    case 'tool_result':
+      return { type: 'chatToolResult', toolName: chunk.toolName, result: chunk.toolResult, environment: chunk.environment };
+    case 'tool_rejected':
+      return {
+        type: 'chatToolRejected',
+        toolName: chunk.toolName,
+        toolArgs: chunk.toolArgs,
+        reason: chunk.error,
+        environment: chunk.environment
+      };
+    case 'usage':
+      return { type: 'chatUsage', provider: chunk.provider, model: chunk.model, usage: chunk.usage };
+    case 'rate_limited':
+      return chunk.rateLimit && { type: 'rateLimited', ...chunk.rateLimit, error: chunk.error };
+    case 'compacted':
+      return chunk.compaction && { type: 'chatCompacted', ...chunk.compaction };
+    case 'done':
+      return { type: 'chatDone', conversationId, status: chunk.status, environment: chunk.environment };
+    case 'error':
+      return { type: 'error', code: 'request_failed', error: chunk.error ?? 'Chat failed' };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Switch a response to Server-Sent Events. The returned function writes one
+ * event; pass no name for plain `data:` lines.
+ */
+export function openEventStream(res: express.Response): (data: unknown, event?: string) => void {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop nginx-style proxies from holding events back
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  return (data, event) => {
+    if (res.writableEnded) return;
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    res.write(`${event ? `event: ${event}\n` : ''}data: ${payload}\n\n`);
+  };
+}
@@ -0,0 +1,226 @@
+import express from 'express';
+import { v4 as uuid } from 'uuid';
+import { ChatBusyError, SessionManager } from '../mcp/sessionManager.js';
+import { ChatService, ChatMessage, ChatStatus } from '../ai/chatService.js';
+import { LlmUsage } from '../ai/llmProvider.js';
+import { SessionOwnedElsewhereError } from '../store/sessionStore.js';
+import { RateLimitError } from '../limits/rateLimits.js';
+import { InvalidRequestError, NotConfiguredError, NotFoundError } from '../util/errors.js';
+import { openEventStream } from './chatEvents.js';
+import { SessionTokens } from './sessionTokens.js';
+
+const sessionTokens = SessionTokens.fromEnv();
+
+/** Errors in the shape OpenAI clients parse: `{ error: { message, type, code } }` */
+function sendOpenAiError(res: express.Response, status: number, message: string, type: string, code?: string) {
+  return res.status(status).json({ error: { message, type, param: null, code: code ?? null } });
+}
+
+function sendError(res: express.Response, e: unknown) {
+  if (e instanceof SessionOwnedElsewhereError) {
+    return sendOpenAiError(res, 421, e.message, 'session_owned_elsewhere', e.owner.id);
+  }
+  if (e instanceof ChatBusyError) {
+    return sendOpenAiError(res, 409, e.message, 'invalid_request_error', 'chat_busy');
+  }
+  if (e instanceof NotFoundError) {
+    return sendOpenAiError(res, 404, e.message, 'invalid_request_error', 'not_found');
+  }
+  if (e instanceof InvalidRequestError) {
+    return sendOpenAiError(res, 400, e.message, 'invalid_request_error');
+  }
+  if (e instanceof NotConfiguredError) {
+    return sendOpenAiError(res, 409, e.message, 'invalid_request_error', 'not_configured');
+  }
+  if (e instanceof RateLimitError) {
+    if (e.retryAfterSeconds !== undefined) {
+      res.set('Retry-After', String(e.retryAfterSeconds));
+    }
+    return sendOpenAiError(res, 429, e.message, 'rate_limit_error', e.limit);
+  }
+  sendOpenAiError(res, 500, (e as Error).message, 'server_error');
+}
+
+/**
+ * The caller's session: a bearer token from `POST /api/session-token` if one
+ * is sent, otherwise the session cookie. Null for a bad token, so it is
+ * refused rather than silently falling back to the cookie.
+ */
+function requestCaller(req: express.Request): { sessionId: string; bearer: boolean } | null | undefined {
+  const header = req.get('Authorization');
+  if (header?.startsWith('Bearer ')) {
+    const sessionId = sessionTokens.verify(header.slice('Bearer '.length).trim());
+    return sessionId ? { sessionId, bearer: true } : null;
+  }
+  return req.session?.id ? { sessionId: req.session.id, bearer: false } : undefined;
+}
+
+/**
+ * OpenAI chat messages to ours. Text content parts are joined; tool messages
+ * and the client's own tool calls are dropped, since only the MCP server's
+ * tools run here.
+ */
+function parseMessages(raw: unknown): ChatMessage[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('"messages" must be a non-empty array');
+  }
+  const messages: ChatMessage[] = [];
+  for (const message of raw) {
+    if (!message || typeof message !== 'object') {
+      throw new Error('Each message must be an object');
+    }
+    const { role, content } = message as { role?: unknown; content?: unknown };
+    if (role === 'tool' || role === 'function') continue;
+    if (role !== 'system' && role !== 'developer' && role !== 'user' && role !== 'assistant') {
+      throw new Error(`Unsupported message role: ${String(role)}`);
+    }
+    const text = typeof content === 'string'
+      ? content
+      : Array.isArray(content)
+        ? content.filter(part => part?.type === 'text' && typeof part.text === 'string').map(part => part.text).join('\n')
+        : '';
+    if (!text && role === 'assistant') continue;
+    messages.push({ role: role === 'developer' ? 'system' : role, content: text });
+  }
+  if (!messages.some(m => m.role === 'user')) {
+    throw new Error('"messages" must include a user message');
+  }
+  return messages;
+}
+
+// A turn cut short by a limit reads to OpenAI clients like running out of tokens
+function finishReason(status: ChatStatus): 'stop' | 'length' {
+  return status === 'rate_limited' ? 'length' : 'stop';
+}
+
+function openAiUsage(usage: LlmUsage) {
+  return {
+    prompt_tokens: usage.inputTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: usage.inputTokens + usage.outputTokens
+  };
+}
+
+/**
+ * An OpenAI-compatible facade over the session's chat, for tools that speak
+ * the Chat Completions API. Requests are stateless: the client sends the
+ * whole history and nothing is added to the session's conversations. Tool
+ * calls still run against the session's PingOne environments and go through
+ * the same policy, approval and limits as REST chat.
+ */
+export function buildOpenAiRouter(sessionManager: SessionManager, chatService: ChatService) {
+  const router = express.Router();
+
+  router.get('/models', (_req, res) => {
+    res.json({
+      object: 'list',
+      data: chatService.listProviders().map(provider => ({
+        id: provider.id,
+        object: 'model',
+        created: 0,
+        owned_by: provider.kind
+      }))
+    });
+  });
+
+  router.post('/chat/completions', async (req, res) => {
+    const caller = requestCaller(req);
+    if (!caller) {
+      return sendOpenAiError(res, 401, caller === null ? 'Invalid or expired session token' : 'No session', 'invalid_request_error', 'invalid_api_key');
+    }
+    const { sessionId } = caller;
+
+    let messages: ChatMessage[];
+    try {
+      messages = parseMessages(req.body?.messages);
+    } catch (e) {
+      return sendOpenAiError(res, 400, (e as Error).message, 'invalid_request_error');
+    }
+    // Unknown model names (e.g. an SDK's default) fall back to the session's provider
+    const model: unknown = req.body.model;
+    const stream = req.body.stream === true;
+    const includeUsage = req.body.stream_options?.include_usage === true;
+
+    try {
+      // A token's session keeps its stored user; one that has ended stays ended
+      const userSession = caller.bearer
+        ? await sessionManager.resumeSession(sessionId, req.ip)
+        : await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      if (!userSession) {
+        return sendOpenAiError(res, 401, 'The session this token stands for has ended', 'invalid_request_error', 'invalid_api_key');
+      }
+      sessionManager.touchSession(sessionId);
+      if (!userSession.mcpClient) {
+        return sendOpenAiError(res, 409, 'PingOne not configured. Please provide configuration first.', 'invalid_request_error');
+      }
+
+      const providerId = typeof model === 'string' && chatService.hasProvider(model)
+        ? model
+        : userSession.llmProviderId || chatService.defaultProviderId;
+      const controller = sessionManager.beginChat(sessionId);
+      res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+      });
+
+      const id = `chatcmpl-${uuid()}`;
+      const created = Math.floor(Date.now() / 1000);
+      // OpenAI clients never see tool results, so the reply has to carry the answer
+      const options = { providerId, signal: controller.signal, fullReplies: true, ...sessionManager.chatHooks(sessionId) };
+      try {
+        if (!stream) {
+          const result = await chatService.chatCompletion(messages, userSession.mcpClient, options);
+          return res.json({
+            id,
+            object: 'chat.completion',
+            created,
+            model: providerId,
+            choices: [{
+              index: 0,
+              message: { role: 'assistant', content: result.message.content },
+              finish_reason: finishReason(result.status)
+            }],
+            usage: openAiUsage(result.usage)
+          });
+        }
+
+        const send = openEventStream(res);
+        const chunk = (delta: Record<string, unknown>, finish: string | null) => ({
+          id,
+          object: 'chat.completion.chunk',
+          created,
+          model: providerId,
+          choices: [{ index: 0, delta, finish_reason: finish }]
+        });
+        const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+        send(chunk({ role: 'assistant', content: '' }, null));
+        try {
+          for await (const event of chatService.chat(messages, userSession.mcpClient, undefined, undefined, options)) {
+            if (event.type === 'text' && event.content) {
+              send(chunk({ content: event.content }, null));
+            } else if (event.type === 'usage' && event.usage) {
+              usage.inputTokens += event.usage.inputTokens;
+              usage.outputTokens += event.usage.outputTokens;
+            } else if (event.type === 'error' && !event.toolName) {
+              send({ error: { message: event.error, type: 'server_error', param: null, code: null } });
+            } else if (event.type === 'done') {
+              send(chunk({}, finishReason(event.status ?? 'completed')));
+            }
+          }
+          if (includeUsage) {
+            send({ id, object: 'chat.completion.chunk', created, model: providerId, choices: [], usage: openAiUsage(usage) });
+          }
+        } catch (e) {
+          send({ error: { message: (e as Error).message, type: 'server_error', param: null, code: null } });
+        }
+        send('[DONE]');
+        res.end();
+      } finally {
+        sessionManager.endChat(sessionId, controller);
+      }
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  return router;
+}
@@ -1,16 +1,82 @@
 import express from 'express';
-import { SessionManager } from '../mcp/sessionManager.js';
+import { ChatBusyError, SessionManager } from '../mcp/sessionManager.js';
 import { ChatService, ChatMessage } from '../ai/chatService.js';
+import { ChatAttachment, parseAttachments, resolveAttachments } from '../ai/attachments.js';
+import { SessionOwnedElsewhereError } from '../store/sessionStore.js';
+import { RateLimitError } from '../limits/rateLimits.js';
+import { InvalidRequestError, NotConfiguredError, NotFoundError } from '../util/errors.js';
+import { AuditQuery, auditToCsv, auditToJsonl, parseAuditQuery } from '../audit/auditLog.js';
+import { Playbook, resolveVariables } from '../playbooks/playbook.js';
+import { PlaybookLibrary } from '../playbooks/playbookLibrary.js';
+import { PlaybookRunReport, runPlaybook } from '../playbooks/playbookRunner.js';
+import { playbookToYaml, recordingToPlaybook } from '../playbooks/recording.js';
+import { snapshotTools, snapshotVisibleTo, summarizeSnapshot, takeSnapshot } from '../snapshots/snapshot.js';
+import { diffSnapshots } from '../snapshots/snapshotDiff.js';
+import { SnapshotStore } from '../snapshots/snapshotStore.js';
+import { chatChunkEvent, openEventStream } from './chatEvents.js';
+import { SessionTokens } from './sessionTokens.js';
 
-const chatService = new ChatService();
+const playbooks = PlaybookLibrary.fromEnv();
+const snapshots = SnapshotStore.fromEnv();
+const sessionTokens = SessionTokens.fromEnv();
 
-export function buildRouter(sessionManager: SessionManager) {
+/** 421 tells a load balancer or client that this pod is the wrong place for the session */
+function sendError(res: express.Response, e: unknown) {
+  if (e instanceof SessionOwnedElsewhereError) {
+    return res.status(421).json({ error: e.message, podId: e.owner.id, address: e.owner.address });
+  }
+  if (e instanceof ChatBusyError) {
+    return res.status(409).json({ error: e.message });
+  }
+  if (e instanceof NotFoundError) {
+    return res.status(404).json({ error: e.message });
+  }
+  if (e instanceof InvalidRequestError) {
+    return res.status(400).json({ error: e.message });
+  }
+  if (e instanceof NotConfiguredError) {
+    return res.status(409).json({ error: e.message });
+  }
+  if (e instanceof RateLimitError) {
+    if (e.retryAfterSeconds !== undefined) {
+      res.set('Retry-After', String(e.retryAfterSeconds));
+    }
+    return res.status(429).json({ error: e.message, limit: e.limit, retryAfterMs: e.retryAfterMs });
+  }
+  res.status(500).json({ error: (e as Error).message });
+}
+
+/** SSE when the body asks for `stream: true` or the client only accepts an event stream */
+function wantsEventStream(req: express.Request): boolean {
+  return req.body?.stream === true || (req.get('Accept') ?? '').includes('text/event-stream');
+}
+
+export function buildRouter(sessionManager: SessionManager, chatService: ChatService) {
   const router = express.Router();
 
   router.get('/health', (_req, res) => {
     res.json({ status: 'ok' });
   });
 
+  router.get('/providers', (_req, res) => {
+    res.json({ providers: chatService.listProviders(), default: chatService.defaultProviderId });
+  });
+
+  // A bearer token for this session, for clients of /v1 that can't keep the cookie
+  router.post('/session-token', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      res.json(sessionTokens.issue(sessionId));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
   router.get('/tools', async (req, res) => {
     const sessionId = req.session?.id;
     if (!sessionId) {
@@ -18,10 +84,11 @@ export function buildRouter(sessionManager: SessionManager) {
     }
 
     try {
-      const userSession = await sessionManager.getOrCreateSession(sessionId);
-      res.json({ tools: userSession.mcpClient.listTools() });
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const tools = userSession.mcpClient?.listTools() || [];
+      res.json({ tools: tools.map(tool => ({ ...tool, policy: sessionManager.toolPolicy.classify(tool) })) });
     } catch (e) {
-      res.status(500).json({ error: (e as Error).message });
+      sendError(res, e);
     }
   });
 
@@ -35,12 +102,519 @@ export function buildRouter(sessionManager: SessionManager) {
     const args = req.body || {};
     
     try {
-      const userSession = await sessionManager.getOrCreateSession(sessionId);
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
       sessionManager.touchSession(sessionId); // Update activity timestamp
-      const result = await userSession.mcpClient.callTool(name, args);
-      res.json({ result });
+      if (!userSession.mcpClient) {
+        return res.status(409).json({ error: 'PingOne not configured. Please provide configuration first.' });
+      }
+      const environment = typeof req.query.environment === 'string' ? req.query.environment : userSession.activeEnvironment;
+      const result = await sessionManager.callTool(sessionId, name, args, 'rest', { environment });
+      res.json({ environment, result });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/environments', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      res.json({ active: userSession.activeEnvironment, environments: sessionManager.listEnvironments(sessionId) });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.put('/environments/active', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+    if (typeof req.body?.name !== 'string') {
+      return res.status(400).json({ error: 'Request body must include the environment "name"' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const environments = sessionManager.switchEnvironment(sessionId, req.body.name);
+      res.json({ active: userSession.activeEnvironment, environments });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.delete('/environments/:name', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const environments = await sessionManager.removeEnvironment(sessionId, req.params.name);
+      res.json({ active: userSession.activeEnvironment, environments });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/pingone/auth', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      res.json({ active: userSession.activeEnvironment, environments: sessionManager.getAuthStatus(sessionId) });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.post('/pingone/login', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const name = typeof req.body?.environment === 'string' ? req.body.environment : userSession.activeEnvironment;
+      // Unknown and unconnected environments are refused by login itself
+      const target = sessionManager.listEnvironments(sessionId).find(e => e.name === name);
+      if (target?.connected && !target.auth) {
+        return res.status(409).json({ error: 'The remote MCP server handles its own login' });
+      }
+      // Returns at once; poll GET /pingone/auth or listen on the WebSocket for the link
+      const status = sessionManager.login(sessionId, name);
+      res.status(202).json({ environment: name, ...status });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/resources', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      if (!userSession.mcpClient) {
+        return res.json({ resources: [], resourceTemplates: [] });
+      }
+      const [resources, resourceTemplates] = await Promise.all([
+        userSession.mcpClient.listResources(),
+        userSession.mcpClient.listResourceTemplates()
+      ]);
+      res.json({ resources, resourceTemplates });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/resources/read', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    const uri = typeof req.query.uri === 'string' ? req.query.uri : '';
+    if (!uri) {
+      return res.status(400).json({ error: 'Query parameter "uri" is required' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      sessionManager.touchSession(sessionId);
+      if (!userSession.mcpClient) {
+        return res.status(409).json({ error: 'PingOne not configured. Please provide configuration first.' });
+      }
+      const contents = await userSession.mcpClient.readResource(uri);
+      res.json({ uri, contents });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/prompts', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      res.json({ prompts: userSession.mcpClient ? await userSession.mcpClient.listPrompts() : [] });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.post('/prompts/:name/get', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      sessionManager.touchSession(sessionId);
+      if (!userSession.mcpClient) {
+        return res.status(409).json({ error: 'PingOne not configured. Please provide configuration first.' });
+      }
+      const result = await userSession.mcpClient.getPrompt(req.params.name, req.body?.arguments || {});
+      res.json(result);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/conversations/current', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const conversation = sessionManager.getActiveConversation(sessionId);
+      res.json({ conversation: conversation || null });
     } catch (e) {
-      res.status(500).json({ error: (e as Error).message });
+      sendError(res, e);
+    }
+  });
+
+  router.get('/playbooks', async (_req, res) => {
+    try {
+      res.json(await playbooks.list());
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/playbooks/:id', async (req, res) => {
+    try {
+      const playbook = await playbooks.get(req.params.id);
+      if (!playbook) {
+        return res.status(404).json({ error: `Unknown playbook: ${req.params.id}` });
+      }
+      res.json({ id: req.params.id, playbook });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Runs to completion and answers with the per-step report; use the
+  // WebSocket runPlaybook message for live progress
+  const runPlaybookHandler = async (req: express.Request, res: express.Response) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    let playbook: Playbook;
+    try {
+      playbook = await playbooks.resolve({ id: req.params.id ?? req.body?.id, playbook: req.body?.playbook });
+      resolveVariables(playbook, req.body?.variables);
+    } catch (e) {
+      return sendError(res, e);
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      sessionManager.touchSession(sessionId);
+      if (!userSession.mcpClient) {
+        return res.status(409).json({ error: 'PingOne not configured. Please provide configuration first.' });
+      }
+
+      const controller = sessionManager.beginChat(sessionId);
+      res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+      });
+      try {
+        let report: PlaybookRunReport | undefined;
+        const run = runPlaybook(
+          playbook,
+          (name, args, signal) => sessionManager.callTool(sessionId, name, args, 'playbook', { signal }),
+          {
+            variables: req.body?.variables,
+            environmentId: userSession.pingoneConfig?.environmentId,
+            signal: controller.signal
+          }
+        );
+        for await (const event of run) {
+          if (event.type === 'done') report = event.report;
+        }
+        res.json(report);
+      } finally {
+        sessionManager.endChat(sessionId, controller);
+      }
+    } catch (e) {
+      sendError(res, e);
+    }
+  };
+  router.post('/playbooks/run', runPlaybookHandler);
+  router.post('/playbooks/:id/run', runPlaybookHandler);
+
+  router.get('/recording', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      res.json({ calls: sessionManager.getRecording(sessionId) });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.delete('/recording', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      sessionManager.clearRecording(sessionId);
+      res.json({ calls: [] });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // The recording as a playbook; format=yaml downloads a file for PLAYBOOKS_DIR
+  router.get('/recording/playbook', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+    if (!['json', 'yaml'].includes(format)) {
+      return res.status(400).json({ error: 'format must be json or yaml' });
+    }
+
+    try {
+      await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const calls = sessionManager.getRecording(sessionId);
+      if (calls.length === 0) {
+        return res.status(404).json({ error: 'Nothing has been recorded in this session yet' });
+      }
+      const playbook = recordingToPlaybook(calls, {
+        name: typeof req.query.name === 'string' ? req.query.name : undefined
+      });
+      if (format === 'json') {
+        return res.json({ playbook });
+      }
+      res.set('Content-Disposition', `attachment; filename="recorded-${new Date().toISOString().slice(0, 10)}.yaml"`);
+      res.type('text/yaml').send(playbookToYaml(playbook));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/ledger', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      res.json({ resources: sessionManager.getLedger(sessionId) });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Deletes every tracked resource; { "dryRun": true } only reports the plan
+  router.post('/ledger/teardown', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      sessionManager.touchSession(sessionId);
+      if (!userSession.mcpClient) {
+        return res.status(409).json({ error: 'PingOne not configured. Please provide configuration first.' });
+      }
+      const dryRun = req.body?.dryRun === true;
+      if (dryRun) {
+        return res.json(await sessionManager.teardown(sessionId, { dryRun }));
+      }
+
+      const controller = sessionManager.beginChat(sessionId);
+      res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+      });
+      try {
+        const report = await sessionManager.teardown(sessionId, { signal: controller.signal });
+        res.json({ ...report, remaining: sessionManager.getLedger(sessionId) });
+      } finally {
+        sessionManager.endChat(sessionId, controller);
+      }
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/snapshots', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const environmentId = userSession.pingoneConfig?.environmentId;
+      res.json({ snapshots: await snapshots.list(s => snapshotVisibleTo(s, sessionId, environmentId)) });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Walks the read-only list tools; answers once every tool has been read
+  router.post('/snapshots', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      sessionManager.touchSession(sessionId);
+      if (!userSession.mcpClient) {
+        return res.status(409).json({ error: 'PingOne not configured. Please provide configuration first.' });
+      }
+      const tools = snapshotTools(userSession.mcpClient.listTools(), sessionManager.toolPolicy);
+      if (tools.length === 0) {
+        return res.status(409).json({ error: 'The MCP server has no read-only list tools to snapshot' });
+      }
+      const snapshot = await takeSnapshot(
+        tools,
+        (name, args) => sessionManager.callTool(sessionId, name, args, 'snapshot'),
+        {
+          sessionId,
+          environmentId: userSession.pingoneConfig?.environmentId,
+          name: typeof req.body?.name === 'string' ? req.body.name : undefined
+        }
+      );
+      await snapshots.save(snapshot);
+      res.status(201).json(summarizeSnapshot(snapshot));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/snapshots/diff', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    const { from, to } = req.query;
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      return res.status(400).json({ error: 'Query parameters "from" and "to" (snapshot IDs) are required' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const environmentId = userSession.pingoneConfig?.environmentId;
+      const [before, after] = await Promise.all([snapshots.get(from), snapshots.get(to)]);
+      for (const [id, snapshot] of [[from, before], [to, after]] as const) {
+        if (!snapshot || !snapshotVisibleTo(snapshot, sessionId, environmentId)) {
+          return res.status(404).json({ error: `Unknown snapshot: ${id}` });
+        }
+      }
+      res.json(diffSnapshots(before!, after!));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.get('/snapshots/:id', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const snapshot = await snapshots.get(req.params.id);
+      if (!snapshot || !snapshotVisibleTo(snapshot, sessionId, userSession.pingoneConfig?.environmentId)) {
+        return res.status(404).json({ error: `Unknown snapshot: ${req.params.id}` });
+      }
+      res.json(snapshot);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  router.delete('/snapshots/:id', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    try {
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
+      const snapshot = await snapshots.get(req.params.id);
+      if (!snapshot || !snapshotVisibleTo(snapshot, sessionId, userSession.pingoneConfig?.environmentId)) {
+        return res.status(404).json({ error: `Unknown snapshot: ${req.params.id}` });
+      }
+      await snapshots.delete(snapshot.id);
+      res.status(204).end();
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // A session only sees its own tool calls
+  router.get('/audit', async (req, res) => {
+    const sessionId = req.session?.id;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'No session' });
+    }
+
+    const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+    if (!['json', 'jsonl', 'csv'].includes(format)) {
+      return res.status(400).json({ error: 'format must be json, jsonl or csv' });
+    }
+    let query: AuditQuery;
+    try {
+      query = parseAuditQuery(req.query);
+    } catch (e) {
+      return res.status(400).json({ error: (e as Error).message });
+    }
+
+    try {
+      // A logged-in user sees their calls from every session, not just this one
+      const user = req.session.user?.subject;
+      const entries = await sessionManager.audit.query(user ? { ...query, user } : { ...query, sessionId });
+      if (format === 'json') {
+        return res.json({ entries });
+      }
+      const filename = `audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.set('Content-Disposition', `attachment; filename="${filename}"`);
+      if (format === 'csv') {
+        res.type('text/csv').send(auditToCsv(entries));
+      } else {
+        res.type('application/x-ndjson').send(auditToJsonl(entries));
+      }
+    } catch (e) {
+      sendError(res, e);
     }
   });
 
@@ -50,16 +624,78 @@ export function buildRouter(sessionManager: SessionManager) {
       return res.status(401).json({ error: 'No session' });
     }
 
-    const messages: ChatMessage[] = req.body.messages || [];
+    // Only the new user turn is accepted; history comes from the server
+    const content = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+    let attachments: ChatAttachment[];
+    try {
+      attachments = parseAttachments(req.body.attachments);
+    } catch (e) {
+      return res.status(400).json({ error: (e as Error).message });
+    }
+    if (!content && attachments.length === 0) {
+      return res.status(400).json({ error: 'Request body must include a non-empty "message" string or "attachments"' });
+    }
+    const providerId: string | undefined = req.body.provider;
+    if (providerId && !chatService.hasProvider(providerId)) {
+      return res.status(400).json({ error: `Unknown LLM provider: ${providerId}` });
+    }
     
     try {
-      const userSession = await sessionManager.getOrCreateSession(sessionId);
+      const userSession = await sessionManager.getOrCreateSession(sessionId, req.ip, req.session?.user);
       sessionManager.touchSession(sessionId);
+      if (!userSession.mcpClient) {
+        return res.status(409).json({ error: 'PingOne not configured. Please provide configuration first.' });
+      }
       
-      const result = await chatService.chatCompletion(messages, userSession.mcpClient);
-      res.json(result);
+      const conversation = sessionManager.getOrCreateConversation(sessionId, req.body.conversationId);
+      const controller = sessionManager.beginChat(sessionId);
+      // Stop the model and any tool call if the HTTP client goes away
+      res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+      });
+
+      try {
+        // Attached resources and prompts go into history ahead of the user's turn
+        const turn = await resolveAttachments(userSession.mcpClient, attachments, controller.signal);
+        if (content) {
+          const userMessage: ChatMessage = { role: 'user', content };
+          turn.push(userMessage);
+        }
+        sessionManager.appendConversationMessages(sessionId, conversation.id, turn);
+        
+        const hooks = sessionManager.chatHooks(sessionId);
+        const options = {
+          providerId: providerId || userSession.llmProviderId,
+          signal: controller.signal,
+          ...hooks
+        };
+
+        if (wantsEventStream(req)) {
+          // Same events as the WebSocket, one SSE event per chunk
+          const send = openEventStream(res);
+          try {
+            for await (const chunk of chatService.chat([...conversation.messages], userSession.mcpClient, undefined, undefined, options)) {
+              if (chunk.type === 'message' && chunk.message) {
+                sessionManager.appendConversationMessages(sessionId, conversation.id, [chunk.message]);
+              }
+              const event = chatChunkEvent(chunk, conversation.id);
+              if (event) send(event, event.type as string);
+            }
+          } catch (e) {
+            send({ type: 'error', error: (e as Error).message }, 'error');
+          }
+          res.end();
+          return;
+        }
+
+        const { newMessages, ...result } = await chatService.chatCompletion([...conversation.messages], userSession.mcpClient, options);
+        sessionManager.appendConversationMessages(sessionId, conversation.id, newMessages);
+        res.json({ conversationId: conversation.id, environment: hooks.environments?.active, ...result, transcript: newMessages });
+      } finally {
+        sessionManager.endChat(sessionId, controller);
+      }
     } catch (e) {
-      res.status(500).json({ error: (e as Error).message });
+      sendError(res, e);
     }
   });
 
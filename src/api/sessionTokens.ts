@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+
+const DEFAULT_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Shared by the cookie middleware and bearer tokens, so both follow one rotation */
+export function sessionSecretFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.SESSION_SECRET || 'mcp-admin-agent-secret-change-in-production';
+}
+
+/**
+ * Bearer tokens that stand for a browser session, for clients that can't
+ * carry its cookie (OpenAI SDKs, curl scripts). A token is
+ * `<sessionId>.<expiresAt>.<signature>`; nothing is stored, so any pod with
+ * the same SESSION_SECRET accepts it.
+ */
+export class SessionTokens {
+  constructor(private readonly secret: string, readonly ttlMs = DEFAULT_TOKEN_TTL_MS) {}
+
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SessionTokens {
+    const ttl = parseInt(env.SESSION_TOKEN_TTL_MS || '', 10);
+    return new SessionTokens(sessionSecretFromEnv(env), Number.isNaN(ttl) ? DEFAULT_TOKEN_TTL_MS : ttl);
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  issue(sessionId: string, now = Date.now()): { token: string; expiresAt: number } {
+    const expiresAt = now + this.ttlMs;
+    const payload = `${sessionId}.${expiresAt}`;
+    return { token: `${payload}.${this.sign(payload)}`, expiresAt };
+  }
+
+  /** The session a token stands for; undefined if it is forged, malformed or expired */
+  verify(token: string, now = Date.now()): string | undefined {
+    const parts = token.split('.');
+    if (parts.length !== 3) return undefined;
+    const [sessionId, expiresAt, signature] = parts;
+    const expected = Buffer.from(this.sign(`${sessionId}.${expiresAt}`));
+    const given = Buffer.from(signature);
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return undefined;
+    if (!(Number(expiresAt) > now)) return undefined;
+    return sessionId;
+  }
+}
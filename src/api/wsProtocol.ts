@@ -0,0 +1,302 @@
+import { z } from 'zod';
+import type { WebSocket } from 'ws';
+import { attachmentSchema } from '../ai/attachments.js';
+
+/**
+ * The `/ws` protocol: every message a client may send and every event the
+ * server sends, as zod schemas. `npm run schema:ws` turns them into JSON
+ * Schema under `schema/` for clients in other languages.
+ *
+ * Adding a message, an event or an optional field keeps the version. Bump it
+ * (and keep answering the old one for a while) when existing clients would
+ * break.
+ */
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1];
+
+export const WS_ERROR_CODES = [
+  /** The frame was not JSON */
+  'invalid_json',
+  /** Unknown `type`, or fields of the wrong shape; `issues` says which */
+  'invalid_message',
+  /** No protocol version both sides speak; the socket is closed after this */
+  'unsupported_version',
+  /** OIDC login is enabled and the session hasn't logged in; the socket is closed with 4003 */
+  'unauthenticated',
+  /** The session has no PingOne environment yet; send configurePingOne first */
+  'not_configured',
+  'not_found',
+  /** Well-formed but not acceptable, e.g. an unknown provider */
+  'invalid_request',
+  /** A chat turn, playbook run or teardown is already running in the session; wait for it or cancelChat */
+  'chat_busy',
+  /** The request was accepted but failed while running */
+  'request_failed'
+] as const;
+
+export type WsErrorCode = typeof WS_ERROR_CODES[number];
+
+/** Echoed on every event that answers the message, so clients can match them up */
+const requestId = z.string().min(1).max(128).optional();
+
+const clientMessage = <T extends string, S extends z.ZodRawShape>(type: T, shape: S) =>
+  z.object({ type: z.literal(type), requestId, ...shape });
+
+const stringRecord = z.record(z.string());
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  clientMessage('configurePingOne', {
+    /** Environment name; the first one is called `default` */
+    name: z.string().optional(),
+    config: z.object({
+      environmentId: z.string(),
+      clientId: z.string(),
+      region: z.string(),
+      topLevelDomain: z.string()
+    })
+  }),
+  clientMessage('listEnvironments', {}),
+  clientMessage('switchEnvironment', { name: z.string() }),
+  clientMessage('removeEnvironment', { name: z.string() }),
+  /** Run the PingOne login again; defaults to the active environment */
+  clientMessage('login', { environment: z.string().optional() }),
+  clientMessage('callTool', {
+    name: z.string().min(1),
+    args: z.record(z.unknown()).optional(),
+    environment: z.string().optional()
+  }),
+  clientMessage('listResources', {}),
+  clientMessage('readResource', { uri: z.string().min(1) }),
+  clientMessage('listPrompts', {}),
+  clientMessage('getPrompt', { name: z.string().min(1), arguments: stringRecord.optional() }),
+  clientMessage('newConversation', {}),
+  clientMessage('setProvider', { providerId: z.string() }),
+  clientMessage('chat', {
+    /** Only the new user turn; history is kept by the server */
+    content: z.string().optional(),
+    conversationId: z.string().optional(),
+    attachments: z.array(attachmentSchema).optional()
+  }),
+  clientMessage('cancelChat', {}),
+  /** Answer to a server `prompt` event */
+  clientMessage('promptResponse', { id: z.string(), response: z.unknown() }),
+  clientMessage('listPlaybooks', {}),
+  clientMessage('runPlaybook', {
+    /** A playbook from the library, or an inline `playbook` (object or YAML) */
+    id: z.string().optional(),
+    playbook: z.unknown().optional(),
+    variables: z.record(z.unknown()).optional()
+  }),
+  clientMessage('getRecording', {}),
+  clientMessage('clearRecording', {}),
+  clientMessage('exportRecording', { name: z.string().optional() }),
+  clientMessage('getLedger', {}),
+  clientMessage('teardown', { dryRun: z.boolean().optional() }),
+  clientMessage('listSnapshots', {}),
+  clientMessage('takeSnapshot', { name: z.string().optional() }),
+  clientMessage('diffSnapshots', { from: z.string(), to: z.string() })
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+const serverEvent = <T extends string, S extends z.ZodRawShape>(type: T, shape: S) =>
+  z.object({ type: z.literal(type), requestId, ...shape });
+
+const toolDefinition = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  inputSchema: z.unknown().optional(),
+  annotations: z.object({
+    title: z.string().optional(),
+    readOnlyHint: z.boolean().optional(),
+    destructiveHint: z.boolean().optional(),
+    idempotentHint: z.boolean().optional(),
+    openWorldHint: z.boolean().optional()
+  }).optional()
+});
+
+const mcpStatus = z.enum(['starting', 'ready', 'reconnecting', 'failed', 'closed']);
+
+const authState = z.enum(['pending', 'authenticated', 'failed', 'expired']);
+
+const environmentSummary = z.object({
+  name: z.string(),
+  environmentId: z.string(),
+  region: z.string(),
+  connected: z.boolean(),
+  status: mcpStatus.optional(),
+  active: z.boolean(),
+  auth: authState.optional()
+});
+
+const chatStatus = z.enum(['completed', 'cancelled', 'rate_limited']);
+
+// Large nested payloads are described in the README rather than here
+const payload = z.unknown();
+
+export const serverEventSchema = z.discriminatedUnion('type', [
+  serverEvent('welcome', {
+    /** Version the server picked from the client's `?protocol=` list */
+    protocolVersion: z.number().int(),
+    supportedProtocolVersions: z.array(z.number().int()),
+    sessionId: z.string(),
+    /** The logged-in user, when OIDC login is enabled */
+    user: z.object({ subject: z.string(), email: z.string().optional(), name: z.string().optional() }).optional(),
+    conversation: z.object({ id: z.string(), messages: z.array(payload) }).optional(),
+    tools: z.array(toolDefinition),
+    needsConfig: z.boolean(),
+    mcpStatus: mcpStatus.optional(),
+    pingoneConfig: z.object({
+      environmentId: z.string(),
+      clientId: z.string(),
+      region: z.string(),
+      topLevelDomain: z.string()
+    }).optional(),
+    environments: z.array(environmentSummary),
+    activeEnvironment: z.string().optional(),
+    providers: z.array(z.object({ id: z.string(), kind: z.string(), model: z.string(), label: z.string() })),
+    provider: z.string()
+  }),
+  serverEvent('error', {
+    code: z.enum(WS_ERROR_CODES),
+    error: z.string(),
+    /** Validation problems, for `invalid_message` */
+    issues: z.array(z.object({ path: z.array(z.union([z.string(), z.number()])), message: z.string() })).optional()
+  }),
+  serverEvent('rateLimited', {
+    limit: z.string(),
+    retryAfterMs: z.number().optional(),
+    error: z.string().optional()
+  }),
+  serverEvent('sessionElsewhere', { podId: z.string(), address: z.string().optional() }),
+  /** A message from the operators, e.g. upcoming maintenance; also sent just before an admin ends the session */
+  serverEvent('notice', { level: z.enum(['info', 'warning']), message: z.string() }),
+  serverEvent('configured', { environment: z.string().optional(), tools: z.array(toolDefinition) }),
+  serverEvent('environments', {
+    active: z.string().optional(),
+    environments: z.array(environmentSummary),
+    tools: z.array(toolDefinition)
+  }),
+  serverEvent('mcpStatus', {
+    environment: z.string(),
+    active: z.boolean(),
+    status: mcpStatus,
+    attempt: z.number().optional(),
+    error: z.string().optional(),
+    tools: z.array(toolDefinition).optional()
+  }),
+  /** The PingOne login is waiting for the user to open `url` (and enter `userCode`, for a device login) */
+  serverEvent('authRequired', {
+    environment: z.string(),
+    kind: z.enum(['authorization', 'device']),
+    url: z.string(),
+    userCode: z.string().optional(),
+    expiresAt: z.number()
+  }),
+  serverEvent('authStatus', { environment: z.string(), state: authState, error: z.string().optional() }),
+  serverEvent('toolsChanged', { tools: z.array(toolDefinition), environment: z.string() }),
+  serverEvent('toolResult', { name: z.string(), environment: z.string().optional(), result: payload }),
+  serverEvent('resources', { resources: z.array(payload), resourceTemplates: z.array(payload) }),
+  serverEvent('resourceContents', { uri: z.string(), contents: z.array(payload) }),
+  serverEvent('prompts', { prompts: z.array(payload) }),
+  serverEvent('promptMessages', { name: z.string(), description: z.string().optional(), messages: z.array(payload) }),
+  /** The server needs an answer (tool approval, MCP elicitation); reply with promptResponse */
+  serverEvent('prompt', { id: z.string(), params: payload }),
+  /** A prompt no longer wants an answer, because its chat turn was cancelled or it timed out; close its dialog */
+  serverEvent('promptClosed', { id: z.string(), reason: z.enum(['cancelled', 'timeout']) }),
+  serverEvent('conversationStarted', { conversationId: z.string() }),
+  serverEvent('providerSelected', { provider: z.string() }),
+  serverEvent('chatDelta', { content: z.string() }),
+  serverEvent('chatToolCall', { toolName: z.string().optional(), toolArgs: payload, environment: z.string().optional() }),
+  serverEvent('chatToolResult', { toolName: z.string().optional(), result: payload, environment: z.string().optional() }),
+  serverEvent('chatToolRejected', {
+    toolName: z.string().optional(),
+    toolArgs: payload,
+    reason: z.string().optional(),
+    environment: z.string().optional()
+  }),
+  serverEvent('chatUsage', {
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    usage: z.object({ inputTokens: z.number(), outputTokens: z.number() }).optional()
+  }),
+  serverEvent('chatCompacted', {
+    reason: z.enum(['tool_result', 'history']),
+    toolName: z.string().optional(),
+    originalTokens: z.number(),
+    compactedTokens: z.number(),
+    droppedMessages: z.number().optional()
+  }),
+  serverEvent('chatDone', { conversationId: z.string(), status: chatStatus.optional(), environment: z.string().optional() }),
+  serverEvent('playbooks', { playbooks: z.array(payload), errors: z.array(z.object({ id: z.string(), error: z.string() })) }),
+  serverEvent('playbookStarted', { runId: z.string(), playbook: z.string(), totalSteps: z.number() }),
+  serverEvent('playbookStep', { runId: z.string(), step: payload }),
+  serverEvent('playbookDone', {
+    runId: z.string(),
+    playbook: z.string(),
+    status: z.enum(['completed', 'failed', 'cancelled']),
+    steps: z.array(payload)
+  }),
+  serverEvent('recording', { calls: z.array(payload) }),
+  serverEvent('recordingPlaybook', { playbook: payload, yaml: z.string() }),
+  serverEvent('ledger', { resources: z.array(payload) }),
+  serverEvent('teardownStep', { step: payload }),
+  serverEvent('teardownDone', {
+    dryRun: z.boolean(),
+    steps: z.array(payload),
+    summary: z.record(z.number()),
+    remaining: z.array(payload)
+  }),
+  serverEvent('snapshots', { snapshots: z.array(payload) }),
+  serverEvent('snapshotProgress', { tool: z.string(), done: z.number(), total: z.number() }),
+  serverEvent('snapshotTaken', { snapshot: payload }),
+  serverEvent('snapshotDiff', { diff: payload })
+]);
+
+export type ServerEvent = z.infer<typeof serverEventSchema>;
+
+/**
+ * The version to speak with a client that asked for `?protocol=<v>[,<v>...]`:
+ * the newest one both sides support. No parameter means the current version.
+ */
+export function negotiateProtocolVersion(requested: string | null): number | undefined {
+  if (!requested) return PROTOCOL_VERSION;
+  const offered = requested.split(',').map(v => parseInt(v.trim(), 10));
+  const common = SUPPORTED_PROTOCOL_VERSIONS.filter(v => offered.includes(v));
+  return common.length > 0 ? Math.max(...common) : undefined;
+}
+
+/**
+ * Parse and validate one frame. Failures come back as the `error` event to
+ * send, carrying the frame's requestId when it had a readable one.
+ */
+export function parseClientMessage(raw: string): { message: ClientMessage } | { error: ServerEvent } {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { error: { type: 'error', code: 'invalid_json', error: 'Message is not valid JSON' } };
+  }
+  const parsed = clientMessageSchema.safeParse(data);
+  if (parsed.success) {
+    return { message: parsed.data };
+  }
+  const { type, requestId: id } = (data ?? {}) as { type?: unknown; requestId?: unknown };
+  const issues = parsed.error.issues.map(issue => ({
+    path: issue.path,
+    message: issue.code === 'invalid_union_discriminator' ? `Unknown message type: ${JSON.stringify(type)}` : issue.message
+  }));
+  return {
+    error: {
+      type: 'error',
+      code: 'invalid_message',
+      error: `Invalid message: ${issues.map(i => (i.path.length ? `${i.path.join('.')}: ` : '') + i.message).join('; ')}`,
+      issues,
+      requestId: typeof id === 'string' && id.length <= 128 ? id : undefined
+    }
+  };
+}
+
+export function sendEvent(ws: WebSocket, event: ServerEvent): void {
+  ws.send(JSON.stringify(event));
+}
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { v4 as uuid } from 'uuid';
+import { z } from 'zod';
+import { redact } from '../util/redact.js';
+import { createLogger } from '../util/logger.js';
+import { InvalidRequestError } from '../util/errors.js';
+
+/**
+ * Where a tool call came from: a chat turn, a one-off REST or WebSocket call,
+ * or a step of a playbook run, teardown or snapshot (started over either API)
+ */
+export type AuditOrigin = 'chat' | 'rest' | 'ws' | 'playbook' | 'teardown' | 'snapshot';
+
+export type AuditOutcome = 'success' | 'error' | 'rejected' | 'rate_limited' | 'cancelled';
+
+/** One tool invocation, as written to the audit file */
+export interface AuditEntry {
+  id: string;
+  /** ISO 8601, when the call finished */
+  timestamp: string;
+  podId?: string;
+  sessionId: string;
+  /** OIDC subject of the logged-in user, when login is enabled */
+  user?: string;
+  environmentId?: string;
+  /** Session's name for the environment connection the call went through */
+  environment?: string;
+  origin: AuditOrigin;
+  tool: string;
+  /** Arguments with secrets masked */
+  args: unknown;
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs: number;
+}
+
+export type AuditRecord = Omit<AuditEntry, 'id' | 'timestamp'>;
+
+export interface AuditQuery {
+  sessionId?: string;
+  user?: string;
+  environmentId?: string;
+  tool?: string;
+  origin?: AuditOrigin;
+  outcome?: AuditOutcome;
+  /** Inclusive bounds on `timestamp` */
+  since?: Date;
+  until?: Date;
+  /** Most recent entries to return; the result stays in chronological order */
+  limit?: number;
+}
+
+const MAX_QUERY_LIMIT = 10000;
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'must be an ISO 8601 date')
+  .transform(value => new Date(value));
+
+const querySchema = z.object({
+  environmentId: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(),
+  origin: z.enum(['chat', 'rest', 'ws', 'playbook', 'teardown', 'snapshot']).optional(),
+  outcome: z.enum(['success', 'error', 'rejected', 'rate_limited', 'cancelled']).optional(),
+  since: isoDate.optional(),
+  until: isoDate.optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_QUERY_LIMIT).default(1000)
+});
+
+/** Validate query-string filters; throws "Invalid audit query: ..." */
+export function parseAuditQuery(raw: unknown): AuditQuery {
+  const parsed = querySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new InvalidRequestError(`Invalid audit query: ${issue ? `${issue.path.join('.')} ${issue.message}` : 'malformed'}`);
+  }
+  return parsed.data;
+}
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  'timestamp',
+  'id',
+  'podId',
+  'sessionId',
+  'user',
+  'environmentId',
+  'environment',
+  'origin',
+  'tool',
+  'outcome',
+  'durationMs',
+  'error',
+  'args'
+];
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : typeof value === 'number' ? String(value) : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvField(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function auditToJsonl(entries: AuditEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length ? '\n' : '');
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.sessionId && entry.sessionId !== query.sessionId) return false;
+  if (query.user && entry.user !== query.user) return false;
+  if (query.environmentId && entry.environmentId !== query.environmentId) return false;
+  if (query.tool && entry.tool !== query.tool) return false;
+  if (query.origin && entry.origin !== query.origin) return false;
+  if (query.outcome && entry.outcome !== query.outcome) return false;
+  const time = Date.parse(entry.timestamp);
+  if (query.since && time < query.since.getTime()) return false;
+  if (query.until && time > query.until.getTime()) return false;
+  return true;
+}
+
+/**
+ * Append-only JSONL record of every tool call this pod made. Entries are
+ * written in order through a single queue; nothing is ever rewritten.
+ * Each pod keeps its own file, so point AUDIT_LOG_FILE at a volume and
+ * collect the files (or ship them to a SIEM) for the whole deployment.
+ */
+export class AuditLog {
+  private queue: Promise<void> = Promise.resolve();
+  private dirReady = false;
+
+  constructor(readonly file: string | undefined, private readonly podId?: string) {}
+
+  /** AUDIT_LOG_FILE, or a file in the temp directory; AUDIT_LOG=off disables it */
+  static fromEnv(podId?: string, env: NodeJS.ProcessEnv = process.env): AuditLog {
+    if (env.AUDIT_LOG === 'off') {
+      return new AuditLog(undefined, podId);
+    }
+    return new AuditLog(env.AUDIT_LOG_FILE || path.join(os.tmpdir(), 'mcp-audit', 'audit.jsonl'), podId);
+  }
+
+  get enabled(): boolean {
+    return this.file !== undefined;
+  }
+
+  /** Queue an entry for writing; arguments are redacted here */
+  record(record: AuditRecord): AuditEntry {
+    const entry: AuditEntry = {
+      id: uuid(),
+      timestamp: new Date().toISOString(),
+      podId: this.podId,
+      ...record,
+      args: redact(record.args)
+    };
+    const file = this.file;
+    if (!file) return entry;
+
+    this.queue = this.queue
+      .then(async () => {
+        if (!this.dirReady) {
+          await fs.promises.mkdir(path.dirname(file), { recursive: true });
+          this.dirReady = true;
+        }
+        await fs.promises.appendFile(file, JSON.stringify(entry) + '\n', 'utf8');
+      })
+      .catch(e => {
+        createLogger('audit').error('Failed to write audit entry', { sessionId: entry.sessionId, tool: entry.tool, error: (e as Error).message });
+      });
+    return entry;
+  }
+
+  /** Scan the file for matching entries; waits for pending writes first */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.queue;
+    if (!this.file || !fs.existsSync(this.file)) return [];
+
+    const limit = query.limit && query.limit > 0 ? query.limit : Infinity;
+    const found: AuditEntry[] = [];
+    const lines = readline.createInterface({ input: fs.createReadStream(this.file, 'utf8'), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A torn last line from a crash mid-write
+        continue;
+      }
+      if (!matches(entry, query)) continue;
+      found.push(entry);
+      if (found.length > limit) found.shift();
+    }
+    return found;
+  }
+
+  /** Resolves once every queued entry has been written */
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+}
@@ -0,0 +1,205 @@
+import express from 'express';
+import * as oidc from 'openid-client';
+import { createLogger } from '../util/logger.js';
+
+const log = createLogger('auth');
+
+/** Who is behind a session once they have logged in */
+export interface SessionUser {
+  /** `sub` claim; unique per issuer */
+  subject: string;
+  issuer: string;
+  email?: string;
+  name?: string;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    user?: SessionUser;
+    /** Kept for the provider's logout endpoint */
+    idToken?: string;
+    /** Checks for the login in flight */
+    oidcLogin?: { state: string; nonce: string; codeVerifier: string; returnTo: string };
+  }
+}
+
+export interface OidcSettings {
+  issuer: URL;
+  clientId: string;
+  /** Omitted for a public client, which then relies on PKCE alone */
+  clientSecret?: string;
+  scopes: string;
+  /** Absolute callback URL; derived from the request when unset */
+  redirectUri?: string;
+  /** Where the provider sends the browser after logout; `/` on this host when unset */
+  postLogoutRedirectUri?: string;
+  /** Allow an http:// issuer, e.g. a mock provider on localhost */
+  allowInsecure: boolean;
+}
+
+/** Undefined unless OIDC_ISSUER is set, in which case login is required */
+export function oidcSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): OidcSettings | undefined {
+  if (!env.OIDC_ISSUER) return undefined;
+  if (!env.OIDC_CLIENT_ID) {
+    throw new Error('OIDC_CLIENT_ID is required when OIDC_ISSUER is set');
+  }
+  const issuer = new URL(env.OIDC_ISSUER);
+  return {
+    issuer,
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET || undefined,
+    scopes: env.OIDC_SCOPES || 'openid profile email',
+    redirectUri: env.OIDC_REDIRECT_URI || undefined,
+    postLogoutRedirectUri: env.OIDC_POST_LOGOUT_REDIRECT_URI || undefined,
+    allowInsecure: issuer.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(issuer.hostname)
+  };
+}
+
+// Only paths on this host, so the login can't be used as an open redirect
+function safeReturnTo(value: unknown): string {
+  return typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') ? value : '/';
+}
+
+function baseUrl(req: express.Request): string {
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * Login in front of the app with an OpenID Connect provider (authorization
+ * code flow with PKCE). The identity is kept in the express session; the
+ * SessionManager session bound to it is keyed by the same session ID.
+ */
+export class OidcAuth {
+  private constructor(private readonly config: oidc.Configuration, private readonly settings: OidcSettings) {}
+
+  static async discover(settings: OidcSettings): Promise<OidcAuth> {
+    const config = await oidc.discovery(
+      settings.issuer,
+      settings.clientId,
+      settings.clientSecret,
+      settings.clientSecret ? undefined : oidc.None(),
+      settings.allowInsecure ? { execute: [oidc.allowInsecureRequests] } : undefined
+    );
+    log.info('OIDC provider discovered', { issuer: config.serverMetadata().issuer, clientId: settings.clientId });
+    return new OidcAuth(config, settings);
+  }
+
+  private redirectUri(req: express.Request): string {
+    return this.settings.redirectUri ?? `${baseUrl(req)}/auth/callback`;
+  }
+
+  /**
+   * `/auth/login`, `/auth/callback`, `/auth/logout` and `/auth/me`.
+   * `onLogout` runs before the express session is destroyed, with its ID.
+   */
+  router(onLogout: (sessionId: string) => Promise<void>): express.Router {
+    const router = express.Router();
+
+    router.get('/login', async (req, res) => {
+      const codeVerifier = oidc.randomPKCECodeVerifier();
+      const state = oidc.randomState();
+      const nonce = oidc.randomNonce();
+      req.session.oidcLogin = { state, nonce, codeVerifier, returnTo: safeReturnTo(req.query.returnTo) };
+      const url = oidc.buildAuthorizationUrl(this.config, {
+        redirect_uri: this.redirectUri(req),
+        scope: this.settings.scopes,
+        code_challenge: await oidc.calculatePKCECodeChallenge(codeVerifier),
+        code_challenge_method: 'S256',
+        state,
+        nonce
+      });
+      req.session.save(() => res.redirect(url.href));
+    });
+
+    router.get('/callback', async (req, res) => {
+      const pending = req.session.oidcLogin;
+      if (!pending) {
+        return res.redirect('/auth/login');
+      }
+      let tokens: Awaited<ReturnType<typeof oidc.authorizationCodeGrant>>;
+      try {
+        tokens = await oidc.authorizationCodeGrant(this.config, new URL(req.originalUrl, this.redirectUri(req)), {
+          pkceCodeVerifier: pending.codeVerifier,
+          expectedState: pending.state,
+          expectedNonce: pending.nonce,
+          idTokenExpected: true
+        });
+      } catch (e) {
+        log.warn('Login failed', { error: (e as Error).message, ip: req.ip });
+        delete req.session.oidcLogin;
+        return res.status(401).type('text/plain').send(`Login failed: ${(e as Error).message}`);
+      }
+
+      const claims = tokens.claims()!;
+      const user: SessionUser = {
+        subject: claims.sub,
+        issuer: claims.iss,
+        email: typeof claims.email === 'string' ? claims.email : undefined,
+        name: typeof claims.name === 'string'
+          ? claims.name
+          : typeof claims.preferred_username === 'string' ? claims.preferred_username : undefined
+      };
+      // A fresh session ID at login, so one fixed before it can't be reused
+      req.session.regenerate(err => {
+        if (err) {
+          return res.status(500).type('text/plain').send(err.message);
+        }
+        req.session.user = user;
+        req.session.idToken = tokens.id_token;
+        log.info('User logged in', { sessionId: req.session.id, subject: user.subject, email: user.email });
+        req.session.save(() => res.redirect(pending.returnTo));
+      });
+    });
+
+    const logout = async (req: express.Request, res: express.Response) => {
+      const { user, idToken } = req.session;
+      const sessionId = req.session.id;
+      await onLogout(sessionId).catch(e => {
+        log.error('Failed to end session at logout', { sessionId, error: (e as Error).message });
+      });
+      const endSession = this.config.serverMetadata().end_session_endpoint
+        ? oidc.buildEndSessionUrl(this.config, {
+          post_logout_redirect_uri: this.settings.postLogoutRedirectUri ?? `${baseUrl(req)}/`,
+          ...(idToken ? { id_token_hint: idToken } : {})
+        }).href
+        : '/';
+      req.session.destroy(() => {
+        if (user) log.info('User logged out', { sessionId, subject: user.subject });
+        res.redirect(endSession);
+      });
+    };
+    router.get('/logout', logout);
+    router.post('/logout', logout);
+
+    router.get('/me', (req, res) => {
+      if (!req.session.user) {
+        return res.status(401).json({ error: 'Not logged in', login: '/auth/login' });
+      }
+      res.json({ user: req.session.user });
+    });
+
+    return router;
+  }
+
+  /**
+   * Everything mounted after this needs a logged-in session. Page loads
+   * redirect to the login; anything else gets 401. With `allowBearer`, requests carrying a
+   * bearer token pass through to routes that verify session tokens
+   * themselves; tokens are only issued to logged-in sessions.
+   */
+  requireLogin(options: { allowBearer?: boolean; publicPaths?: string[] } = {}): express.RequestHandler {
+    return (req, res, next) => {
+      if (req.session?.user || options.publicPaths?.includes(req.path)) {
+        return next();
+      }
+      if (options.allowBearer && req.get('Authorization')?.startsWith('Bearer ')) {
+        return next();
+      }
+      // Browser navigations ask for text/html explicitly; API clients usually send */*
+      if (req.method === 'GET' && (req.get('Accept') ?? '').includes('text/html')) {
+        return res.redirect(`/auth/login?returnTo=${encodeURIComponent(req.originalUrl)}`);
+      }
+      res.status(401).json({ error: 'Login required', login: '/auth/login' });
+    };
+  }
+}
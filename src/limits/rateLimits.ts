@@ -0,0 +1,146 @@
+export type LimitName =
+  | 'sessionsPerIp'
+  | 'sessionsPerUser'
+  | 'mcpClients'
+  | 'environmentsPerSession'
+  | 'wsPerSession'
+  | 'toolCallsPerMinute'
+  | 'llmTurnsPerMinute'
+  | 'toolIterations';
+
+/** Deployment limits; 0 turns a limit off */
+export interface LimitsConfig {
+  /** Live sessions on this pod per client IP */
+  sessionsPerIp: number;
+  /** Live sessions on this pod per logged-in user (OIDC only) */
+  sessionsPerUser: number;
+  /** Concurrent MCP clients (child processes or HTTP connections) on this pod */
+  mcpClients: number;
+  /** Named PingOne environments one session may connect at the same time */
+  environmentsPerSession: number;
+  wsPerSession: number;
+  toolCallsPerMinute: number;
+  /** Model requests per session; a tool loop makes one per iteration */
+  llmTurnsPerMinute: number;
+  /** Tool batches ChatService runs for one user message before it stops */
+  toolIterations: number;
+}
+
+const DEFAULT_LIMITS: LimitsConfig = {
+  sessionsPerIp: 20,
+  sessionsPerUser: 5,
+  mcpClients: 50,
+  environmentsPerSession: 5,
+  wsPerSession: 5,
+  toolCallsPerMinute: 60,
+  llmTurnsPerMinute: 30,
+  toolIterations: 10
+};
+
+const ENV_NAMES: Record<keyof LimitsConfig, string> = {
+  sessionsPerIp: 'LIMIT_SESSIONS_PER_IP',
+  sessionsPerUser: 'LIMIT_SESSIONS_PER_USER',
+  mcpClients: 'LIMIT_MCP_CLIENTS',
+  environmentsPerSession: 'LIMIT_ENVIRONMENTS_PER_SESSION',
+  wsPerSession: 'LIMIT_WS_PER_SESSION',
+  toolCallsPerMinute: 'LIMIT_TOOL_CALLS_PER_MINUTE',
+  llmTurnsPerMinute: 'LIMIT_LLM_TURNS_PER_MINUTE',
+  toolIterations: 'LIMIT_TOOL_ITERATIONS'
+};
+
+export function limitsFromEnv(env: NodeJS.ProcessEnv = process.env): LimitsConfig {
+  const limits = { ...DEFAULT_LIMITS };
+  for (const key of Object.keys(ENV_NAMES) as Array<keyof LimitsConfig>) {
+    const raw = env[ENV_NAMES[key]];
+    if (!raw) continue;
+    const value = parseInt(raw, 10);
+    if (Number.isNaN(value) || value < 0) {
+      throw new Error(`${ENV_NAMES[key]} must be a non-negative integer`);
+    }
+    limits[key] = value;
+  }
+  return limits;
+}
+
+/**
+ * A request went over one of the limits. REST answers 429 with Retry-After,
+ * WebSocket clients get a `rateLimited` event.
+ */
+export class RateLimitError extends Error {
+  constructor(readonly limit: LimitName, message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+
+  /** Whole seconds for the Retry-After header */
+  get retryAfterSeconds(): number | undefined {
+    return this.retryAfterMs === undefined ? undefined : Math.max(1, Math.ceil(this.retryAfterMs / 1000));
+  }
+}
+
+/** Counts events per key over a sliding window */
+export class SlidingWindowLimiter {
+  private events = new Map<string, number[]>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  /** Record an event; returns how long to wait if the key is over the limit */
+  take(key: string): { ok: true } | { ok: false; retryAfterMs: number } {
+    if (this.limit <= 0) return { ok: true };
+
+    const now = Date.now();
+    const recent = (this.events.get(key) ?? []).filter(t => t > now - this.windowMs);
+    if (recent.length >= this.limit) {
+      this.events.set(key, recent);
+      return { ok: false, retryAfterMs: recent[0] + this.windowMs - now };
+    }
+    recent.push(now);
+    this.events.set(key, recent);
+    return { ok: true };
+  }
+
+  forget(key: string) {
+    this.events.delete(key);
+  }
+}
+
+/**
+ * Per-session rate limits. Counting is per pod, which is where a session's
+ * work runs anyway.
+ */
+export class SessionQuotas {
+  private toolCalls: SlidingWindowLimiter;
+  private llmTurns: SlidingWindowLimiter;
+
+  constructor(readonly limits: LimitsConfig = limitsFromEnv()) {
+    this.toolCalls = new SlidingWindowLimiter(limits.toolCallsPerMinute, 60 * 1000);
+    this.llmTurns = new SlidingWindowLimiter(limits.llmTurnsPerMinute, 60 * 1000);
+  }
+
+  consumeToolCall(sessionId: string) {
+    const result = this.toolCalls.take(sessionId);
+    if (!result.ok) {
+      throw new RateLimitError(
+        'toolCallsPerMinute',
+        `Tool call limit of ${this.limits.toolCallsPerMinute} per minute reached`,
+        result.retryAfterMs
+      );
+    }
+  }
+
+  consumeLlmTurn(sessionId: string) {
+    const result = this.llmTurns.take(sessionId);
+    if (!result.ok) {
+      throw new RateLimitError(
+        'llmTurnsPerMinute',
+        `Model request limit of ${this.limits.llmTurnsPerMinute} per minute reached`,
+        result.retryAfterMs
+      );
+    }
+  }
+
+  forget(sessionId: string) {
+    this.toolCalls.forget(sessionId);
+    this.llmTurns.forget(sessionId);
+  }
+}
@@ -0,0 +1,233 @@
+import { BaseMcpClient, JsonRpcMessage, McpClientHandlers } from './mcpClient.js';
+
+export interface HttpMcpClientOptions extends McpClientHandlers {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+// The GET stream is reopened after it drops, backing off up to a limit
+const LISTEN_RETRY_MIN_MS = 1000;
+const LISTEN_RETRY_MAX_MS = 30 * 1000;
+
+/**
+ * MCP client for the Streamable HTTP transport. Every outbound message is a
+ * POST; the server answers with plain JSON or an SSE stream. Server-initiated
+ * messages arrive on an optional long-lived GET stream. A request that can't
+ * reach the server counts as a lost connection (restart with backoff); a 404
+ * for our session means the server forgot it, so a new one is started.
+ */
+export class HttpMcpClient extends BaseMcpClient {
+  readonly transport = 'http' as const;
+  private sessionId?: string;
+  private connected = false;
+  private listenAbort?: AbortController;
+  private listenTimer?: NodeJS.Timeout;
+  private listenDelayMs = LISTEN_RETRY_MIN_MS;
+
+  constructor(private readonly opts: HttpMcpClientOptions) {
+    super(opts);
+  }
+
+  protected async connect() {
+    this.connected = true;
+  }
+
+  protected isConnected() {
+    return this.connected;
+  }
+
+  /** End the server-side session (if any) and stop listening */
+  protected async disconnect() {
+    this.connected = false;
+    this.stopListening();
+
+    const sessionId = this.sessionId;
+    this.sessionId = undefined;
+    if (!sessionId) return;
+    try {
+      await fetch(this.opts.url, {
+        method: 'DELETE',
+        headers: { ...(this.opts.headers || {}), 'Mcp-Session-Id': sessionId }
+      });
+    } catch (e) {
+      this.log.warn('Failed to end HTTP session', { error: (e as Error).message });
+    }
+  }
+
+  private buildHeaders(extra: Record<string, string> = {}): Record<string, string> {
+    const headers: Record<string, string> = { ...(this.opts.headers || {}), ...extra };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    // Required on every request after the handshake
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+    return headers;
+  }
+
+  protected async send(message: JsonRpcMessage) {
+    const sentSessionId = this.sessionId;
+    let res: Response;
+    try {
+      res = await fetch(this.opts.url, {
+        method: 'POST',
+        headers: this.buildHeaders({
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream'
+        }),
+        body: JSON.stringify(message)
+      });
+    } catch (e) {
+      // Unreachable server: same as a crashed process, restart with backoff
+      if (this.connected) {
+        this.connected = false;
+        this.stopListening();
+        this.handleDisconnect(`request failed: ${(e as Error).message}`);
+      }
+      throw e;
+    }
+
+    // Only the first 404 for a session starts a new one; later ones raced it
+    if (res.status === 404 && sentSessionId && sentSessionId === this.sessionId) {
+      this.renewSession();
+      throw new Error('MCP HTTP session expired; starting a new one, please retry');
+    }
+
+    const sessionId = res.headers.get('mcp-session-id');
+    if (sessionId && sessionId !== this.sessionId) {
+      this.sessionId = sessionId;
+      this.listenDelayMs = LISTEN_RETRY_MIN_MS;
+      this.listen();
+    }
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => '');
+      throw new Error(`MCP HTTP ${res.status}: ${body || res.statusText}`);
+    }
+
+    // Notifications and responses are acknowledged with 202 and no body
+    if (res.status === 202 || !res.body) return;
+
+    const contentType = res.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      // Don't block the caller; responses resolve through handleMessage
+      this.consumeEventStream(res).catch(err => {
+        this.log.error('Event stream error', { error: err.message });
+      });
+    } else if (contentType.includes('application/json')) {
+      const payload = await res.json();
+      for (const msg of Array.isArray(payload) ? payload : [payload]) {
+        this.handleMessage(msg);
+      }
+    }
+  }
+
+  /**
+   * The server no longer knows our session (it expired or the server
+   * restarted). The spec says to start over with a new initialize, sent
+   * without the old session ID.
+   */
+  private renewSession() {
+    this.log.warn('HTTP session expired, starting a new one');
+    this.sessionId = undefined;
+    this.rejectPending(new Error('MCP HTTP session expired; starting a new one, please retry'));
+    this.restart().catch(e => {
+      // restart() has already scheduled retries with backoff
+      this.log.error('Failed to start a new HTTP session', { error: (e as Error).message });
+    });
+  }
+
+  private stopListening() {
+    clearTimeout(this.listenTimer);
+    this.listenTimer = undefined;
+    this.listenAbort?.abort();
+    this.listenAbort = undefined;
+  }
+
+  /**
+   * Open the GET stream for server-initiated requests and notifications.
+   * Servers that don't offer one answer 405, which is not an error. A stream
+   * that ends or fails is reopened with backoff while the session lasts.
+   */
+  private listen() {
+    this.stopListening();
+    const abort = new AbortController();
+    this.listenAbort = abort;
+    const sessionId = this.sessionId;
+
+    fetch(this.opts.url, {
+      method: 'GET',
+      headers: this.buildHeaders({ Accept: 'text/event-stream' }),
+      signal: abort.signal
+    }).then(async res => {
+      if (res.status === 405) return;
+      if (res.status === 404 && sessionId && sessionId === this.sessionId) {
+        this.renewSession();
+        return;
+      }
+      if (!res.ok || !res.body) {
+        throw new Error(`HTTP ${res.status}`);
+      }
+      this.listenDelayMs = LISTEN_RETRY_MIN_MS;
+      await this.consumeEventStream(res);
+      if (!abort.signal.aborted) {
+        this.log.info('Listen stream ended by the server');
+        this.relisten(abort);
+      }
+    }).catch(err => {
+      if (!abort.signal.aborted) {
+        this.log.warn('Listen stream closed', { error: err.message });
+        this.relisten(abort);
+      }
+    });
+  }
+
+  private relisten(abort: AbortController) {
+    if (abort !== this.listenAbort || !this.connected || !this.sessionId) return;
+    const delay = this.listenDelayMs;
+    this.listenDelayMs = Math.min(delay * 2, LISTEN_RETRY_MAX_MS);
+    this.log.debug('Reopening listen stream', { delayMs: delay });
+    this.listenTimer = setTimeout(() => {
+      this.listenTimer = undefined;
+      if (abort === this.listenAbort) this.listen();
+    }, delay);
+  }
+
+  private async consumeEventStream(res: Response) {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+      for (const event of events) {
+        this.dispatchEvent(event);
+      }
+    }
+    if (buffer.trim()) {
+      this.dispatchEvent(buffer);
+    }
+  }
+
+  private dispatchEvent(event: string) {
+    const data = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (!data) return;
+
+    try {
+      this.handleMessage(JSON.parse(data));
+    } catch (e) {
+      this.log.warn('Failed to parse MCP event', { data: data.slice(0, 500) });
+    }
+  }
+}
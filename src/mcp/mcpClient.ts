@@ -0,0 +1,606 @@
+import { v4 as uuid } from 'uuid';
+import { ZodSchema, z } from 'zod';
+import { createLogger, LogFields, Logger } from '../util/logger.js';
+
+// Basic JSON-RPC 2.0 types
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: string;
+  method: string;
+  params?: any;
+}
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+}
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export interface McpToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema?: any;
+  annotations?: McpToolAnnotations;
+}
+
+/** Behaviour hints from the server; untrusted unless the server is */
+export interface McpToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/** One item of a resources/read result; exactly one of text or blob is set */
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: string; text?: string; resource?: McpResourceContents; [key: string]: unknown };
+}
+
+export interface McpPromptResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
+/** Protocol revisions this client can speak, newest first */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+const CLIENT_INFO = { name: 'mcp-admin-agent', version: '0.1.0' };
+
+// Guards against servers that keep returning a cursor
+const MAX_LIST_PAGES = 100;
+
+const initializeResultSchema = z.object({
+  protocolVersion: z.string(),
+  capabilities: z.record(z.any()).default({}),
+  serverInfo: z.object({ name: z.string(), version: z.string().optional() }).passthrough().optional(),
+  instructions: z.string().optional()
+}).passthrough();
+
+export type McpServerCapabilities = Record<string, any>;
+export type McpServerInfo = { name: string; version?: string; [key: string]: unknown };
+
+const pageSchema = <T extends z.ZodTypeAny>(key: string, item: T) => z.object({
+  [key]: z.array(item).default([]),
+  nextCursor: z.string().optional()
+}).passthrough();
+
+const toolsListResultSchema = pageSchema('tools', z.object({ name: z.string() }).passthrough());
+const resourcesListResultSchema = pageSchema('resources', z.object({ uri: z.string(), name: z.string() }).passthrough());
+const resourceTemplatesListResultSchema = pageSchema(
+  'resourceTemplates',
+  z.object({ uriTemplate: z.string(), name: z.string() }).passthrough()
+);
+const promptsListResultSchema = pageSchema('prompts', z.object({ name: z.string() }).passthrough());
+
+const readResourceResultSchema = z.object({
+  contents: z.array(z.object({ uri: z.string() }).passthrough()).default([])
+}).passthrough();
+
+const getPromptResultSchema = z.object({
+  description: z.string().optional(),
+  messages: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.object({ type: z.string() }).passthrough()
+  }))
+}).passthrough();
+
+/**
+ * Options shared by every transport: client capabilities, request timeouts
+ * and handlers for requests the server sends back to the client.
+ */
+export interface McpClientHandlers {
+  initCapabilities?: Record<string, any>;
+  /** Default timeout for protocol requests (ms) */
+  requestTimeoutMs?: number;
+  /** Timeout for tools/call, which may wait on interactive prompts (ms) */
+  toolCallTimeoutMs?: number;
+  /** Restart behaviour after the connection is lost unexpectedly */
+  restart?: McpRestartPolicy;
+  onPrompt?: (params: any) => Promise<any>;
+  onStatusChange?: (status: McpConnectionStatus, detail?: McpStatusDetail) => void;
+  /** Called after the server announced a changed tool list and it was re-fetched */
+  onToolsChanged?: (tools: McpToolDefinition[]) => void;
+  /** Added to every log line from this client, e.g. sessionId and environment */
+  logContext?: LogFields;
+}
+
+export type McpConnectionStatus = 'starting' | 'ready' | 'reconnecting' | 'failed' | 'closed';
+
+export interface McpStatusDetail {
+  attempt?: number;
+  error?: string;
+}
+
+export interface McpRestartPolicy {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface McpRequestOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_TOOL_CALL_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_RESTART_POLICY: Required<McpRestartPolicy> = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30 * 1000
+};
+
+interface PendingRequest {
+  resolve: (res: JsonRpcResponse) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Transport-independent view of an MCP server connection. SessionManager,
+ * ChatService and the routes only depend on this interface.
+ */
+export interface McpClient {
+  readonly transport: 'stdio' | 'http';
+  readonly status: McpConnectionStatus;
+  readonly protocolVersion?: string;
+  readonly serverInfo?: McpServerInfo;
+  readonly serverCapabilities: McpServerCapabilities;
+  initialize(): Promise<void>;
+  /** Stop the connection for good and reject anything still pending */
+  close(): Promise<void>;
+  /** Drop the connection and reconnect now; pending requests fail */
+  restart(): Promise<void>;
+  listTools(): McpToolDefinition[];
+  callTool(name: string, args: any, options?: McpRequestOptions): Promise<any>;
+  listResources(): Promise<McpResource[]>;
+  listResourceTemplates(): Promise<McpResourceTemplate[]>;
+  readResource(uri: string, options?: McpRequestOptions): Promise<McpResourceContents[]>;
+  listPrompts(): Promise<McpPrompt[]>;
+  getPrompt(name: string, args?: Record<string, string>, options?: McpRequestOptions): Promise<McpPromptResult>;
+}
+
+/**
+ * JSON-RPC bookkeeping and MCP protocol logic. Subclasses only provide a way
+ * to open the connection and to deliver a single outbound message; inbound
+ * messages are passed to handleMessage.
+ */
+export abstract class BaseMcpClient implements McpClient {
+  abstract readonly transport: 'stdio' | 'http';
+  private pending = new Map<string, PendingRequest>();
+  private tools: McpToolDefinition[] = [];
+  private initialized = false;
+  private closed = false;
+  private restartAttempt = 0;
+  private restartTimer?: NodeJS.Timeout;
+  private currentStatus: McpConnectionStatus = 'starting';
+  private negotiated?: {
+    protocolVersion: string;
+    capabilities: McpServerCapabilities;
+    serverInfo?: McpServerInfo;
+    instructions?: string;
+  };
+
+  protected readonly log: Logger;
+
+  constructor(private readonly handlers: McpClientHandlers) {
+    this.log = createLogger('mcp', handlers.logContext);
+  }
+
+  /** Open the underlying connection; called once before the handshake */
+  protected abstract connect(): Promise<void>;
+
+  /** Deliver one JSON-RPC message to the server */
+  protected abstract send(message: JsonRpcMessage): Promise<void>;
+
+  /** Whether the connection can currently carry requests */
+  protected abstract isConnected(): boolean;
+
+  /** Tear down the underlying connection (kill the process, end the HTTP session) */
+  protected abstract disconnect(): Promise<void>;
+
+  get status(): McpConnectionStatus {
+    return this.currentStatus;
+  }
+
+  get protocolVersion(): string | undefined {
+    return this.negotiated?.protocolVersion;
+  }
+
+  get serverInfo(): McpServerInfo | undefined {
+    return this.negotiated?.serverInfo;
+  }
+
+  get serverCapabilities(): McpServerCapabilities {
+    return this.negotiated?.capabilities ?? {};
+  }
+
+  get instructions(): string | undefined {
+    return this.negotiated?.instructions;
+  }
+
+  private setStatus(status: McpConnectionStatus, detail?: McpStatusDetail) {
+    this.currentStatus = status;
+    this.handlers.onStatusChange?.(status, detail);
+  }
+
+  protected rejectPending(error: Error) {
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const request of pending) {
+      request.reject(error);
+    }
+  }
+
+  /**
+   * Called by transports when the connection drops without close() being
+   * called. Fails in-flight requests and schedules a restart with backoff.
+   */
+  protected handleDisconnect(reason: string) {
+    if (this.closed) return;
+    this.log.warn('Connection lost', { reason });
+    this.initialized = false;
+    this.rejectPending(new Error(`MCP server connection lost: ${reason}`));
+    this.scheduleRestart(reason);
+  }
+
+  private scheduleRestart(reason: string) {
+    if (this.restartTimer) return;
+    const configured = this.handlers.restart || {};
+    const policy = {
+      maxAttempts: configured.maxAttempts ?? DEFAULT_RESTART_POLICY.maxAttempts,
+      initialDelayMs: configured.initialDelayMs ?? DEFAULT_RESTART_POLICY.initialDelayMs,
+      maxDelayMs: configured.maxDelayMs ?? DEFAULT_RESTART_POLICY.maxDelayMs
+    };
+
+    if (this.restartAttempt >= policy.maxAttempts) {
+      this.log.error('Giving up restarting', { attempts: this.restartAttempt, reason });
+      this.setStatus('failed', { attempt: this.restartAttempt, error: reason });
+      return;
+    }
+
+    this.restartAttempt++;
+    const delay = Math.min(policy.initialDelayMs * 2 ** (this.restartAttempt - 1), policy.maxDelayMs);
+    this.log.warn('Restarting', { delayMs: delay, attempt: this.restartAttempt, maxAttempts: policy.maxAttempts });
+    this.setStatus('reconnecting', { attempt: this.restartAttempt, error: reason });
+
+    this.restartTimer = setTimeout(async () => {
+      this.restartTimer = undefined;
+      if (this.closed) return;
+      try {
+        await this.initialize();
+      } catch (e) {
+        this.initialized = false;
+        // The failed attempt may have left a half-open connection behind
+        await this.disconnect().catch(() => undefined);
+        this.scheduleRestart((e as Error).message);
+      }
+    }, delay);
+  }
+
+  async close() {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = undefined;
+    }
+    this.rejectPending(new Error('MCP client closed'));
+    await this.disconnect();
+    this.initialized = false;
+    this.setStatus('closed');
+  }
+
+  /**
+   * Tear the connection down and reconnect straight away, e.g. to unstick a
+   * hung server. Unlike a crash this doesn't wait for the backoff, and the
+   * attempt counter starts over.
+   */
+  async restart() {
+    if (this.closed) throw new Error('MCP client closed');
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = undefined;
+    }
+    this.log.info('Restart requested');
+    this.initialized = false;
+    this.rejectPending(new Error('MCP server restarted'));
+    await this.disconnect();
+    this.restartAttempt = 0;
+    this.setStatus('starting');
+    try {
+      await this.initialize();
+    } catch (e) {
+      this.initialized = false;
+      await this.disconnect().catch(() => undefined);
+      this.scheduleRestart((e as Error).message);
+      throw e;
+    }
+  }
+
+  private async handleServerRequest(req: JsonRpcRequest) {
+    try {
+      let result: any;
+
+      if (req.method === 'prompts/get' && this.handlers.onPrompt) {
+        result = await this.handlers.onPrompt(req.params);
+      } else {
+        // Method not supported; this client has no resources of its own to serve
+        await this.sendResponse(req.id, undefined, {
+          code: -32601,
+          message: `Method not found: ${req.method}`
+        });
+        return;
+      }
+
+      await this.sendResponse(req.id, result);
+    } catch (error) {
+      await this.sendResponse(req.id, undefined, {
+        code: -32603,
+        message: (error as Error).message
+      }).catch(() => undefined);
+    }
+  }
+
+  private async sendResponse(id: string, result?: any, error?: { code: number; message: string }) {
+    if (!this.isConnected()) return;
+    const res: JsonRpcResponse = { jsonrpc: '2.0', id, result, error };
+    await this.send(res);
+  }
+
+  protected handleMessage(msg: any) {
+    if ('id' in msg && ('result' in msg || 'error' in msg)) {
+      const request = this.pending.get(msg.id);
+      if (request) {
+        this.pending.delete(msg.id);
+        request.resolve(msg as JsonRpcResponse);
+      }
+    } else if ('method' in msg) {
+      // Handle server-originated requests that need a response
+      if ('id' in msg) {
+        this.handleServerRequest(msg as JsonRpcRequest);
+      } else {
+        this.handleNotification(msg as JsonRpcNotification);
+      }
+    }
+  }
+
+  private handleNotification(notification: JsonRpcNotification) {
+    if (notification.method === 'notifications/tools/list_changed') {
+      this.refreshTools().catch(e => {
+        this.log.warn('Tool refresh failed', { error: (e as Error).message });
+      });
+    }
+  }
+
+  /**
+   * Re-fetch the tool list after the server reported a change and let the
+   * owner push it to connected clients.
+   */
+  async refreshTools() {
+    this.tools = await this.fetchTools();
+    this.log.info('Tool list changed', { tools: this.tools.length });
+    this.handlers.onToolsChanged?.(this.tools);
+  }
+
+  private async fetchTools(): Promise<McpToolDefinition[]> {
+    if (!this.serverCapabilities.tools) return [];
+    return this.listAllPages<McpToolDefinition>('tools/list', 'tools', toolsListResultSchema);
+  }
+
+  /** Walk a paginated list method until the server stops returning a cursor */
+  private async listAllPages<T>(method: string, key: string, schema: ZodSchema): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await this.sendRequest(method, cursor ? { cursor } : undefined, schema);
+      items.push(...result[key]);
+      cursor = result.nextCursor;
+      if (!cursor) return items;
+    }
+    this.log.warn('List returned too many pages, stopping', { method, maxPages: MAX_LIST_PAGES });
+    return items;
+  }
+
+  private requireCapability(capability: 'resources' | 'prompts') {
+    if (!this.serverCapabilities[capability]) {
+      throw new Error(`MCP server does not support ${capability}`);
+    }
+  }
+
+  /**
+   * Send a request and wait for its response. On timeout or abort the pending
+   * entry is dropped and the server is told via notifications/cancelled.
+   */
+  protected sendRequest<T = any>(
+    method: string,
+    params?: any,
+    schema?: ZodSchema<T>,
+    options: McpRequestOptions = {}
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (!this.isConnected()) {
+        return reject(new Error(this.currentStatus === 'reconnecting'
+          ? 'MCP server is restarting, please retry shortly'
+          : 'MCP process not started'));
+      }
+      const { signal } = options;
+      if (signal?.aborted) return reject(new Error(`${method} cancelled`));
+
+      const id = uuid();
+      const req: JsonRpcRequest = { jsonrpc: '2.0', id, method, params };
+      const timeoutMs = options.timeoutMs ?? this.handlers.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+      const cancel = (reason: string) => {
+        if (!this.pending.delete(id)) return;
+        cleanup();
+        this.sendNotification('notifications/cancelled', { requestId: id, reason }).catch(() => undefined);
+        reject(new Error(`${method} ${reason}`));
+      };
+      const onAbort = () => cancel('cancelled');
+      const timeout = setTimeout(() => cancel(`timed out after ${timeoutMs}ms`), timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const fail = (err: Error) => {
+        cleanup();
+        reject(err);
+      };
+      this.pending.set(id, {
+        resolve: (res: JsonRpcResponse) => {
+          cleanup();
+          if (res.error) {
+            return reject(new Error(`${res.error.code}: ${res.error.message}`));
+          }
+          if (schema) {
+            try {
+              resolve(schema.parse(res.result));
+            } catch (e) {
+              reject(e);
+            }
+          } else {
+            resolve(res.result);
+          }
+        },
+        reject: fail
+      });
+      this.send(req).catch(err => {
+        if (this.pending.delete(id)) fail(err);
+      });
+    });
+  }
+
+  protected async sendNotification(method: string, params?: any) {
+    if (!this.isConnected()) return;
+    const notification: JsonRpcNotification = { jsonrpc: '2.0', method, params };
+    await this.send(notification);
+  }
+
+  async initialize() {
+    if (this.initialized) return;
+    if (this.closed) throw new Error('MCP client closed');
+    await this.connect();
+    this.negotiated = undefined;
+
+    // prompts advertises the PingOne server's interactive callback
+    const capabilities = {
+      ...(this.handlers.initCapabilities ?? {}),
+      prompts: this.handlers.onPrompt ? {} : undefined
+    };
+    const result = await this.sendRequest('initialize', {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities,
+      clientInfo: CLIENT_INFO
+    }, initializeResultSchema);
+
+    // The server answers with the version it wants; we must support it
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      throw new Error(
+        `MCP server requested unsupported protocol version ${result.protocolVersion} ` +
+        `(supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`
+      );
+    }
+    this.negotiated = {
+      protocolVersion: result.protocolVersion,
+      capabilities: result.capabilities ?? {},
+      serverInfo: result.serverInfo as McpServerInfo | undefined,
+      instructions: result.instructions
+    };
+    this.log.info('Connected', {
+      server: result.serverInfo?.name,
+      version: result.serverInfo?.version,
+      protocolVersion: result.protocolVersion
+    });
+
+    await this.sendNotification('notifications/initialized');
+    this.tools = await this.fetchTools();
+    this.initialized = true;
+    this.restartAttempt = 0;
+    this.setStatus('ready');
+  }
+
+  listTools() {
+    return this.tools;
+  }
+
+  async callTool(name: string, args: any, options: McpRequestOptions = {}) {
+    return this.sendRequest('tools/call', { name, arguments: args }, undefined, {
+      timeoutMs: this.handlers.toolCallTimeoutMs ?? DEFAULT_TOOL_CALL_TIMEOUT_MS,
+      ...options
+    });
+  }
+
+  // Listing is not an error on servers without the capability; there is just nothing there
+  async listResources(): Promise<McpResource[]> {
+    if (!this.serverCapabilities.resources) return [];
+    return this.listAllPages('resources/list', 'resources', resourcesListResultSchema);
+  }
+
+  async listResourceTemplates(): Promise<McpResourceTemplate[]> {
+    if (!this.serverCapabilities.resources) return [];
+    return this.listAllPages('resources/templates/list', 'resourceTemplates', resourceTemplatesListResultSchema);
+  }
+
+  async readResource(uri: string, options: McpRequestOptions = {}): Promise<McpResourceContents[]> {
+    this.requireCapability('resources');
+    const result = await this.sendRequest('resources/read', { uri }, readResourceResultSchema, options);
+    return (result.contents ?? []) as McpResourceContents[];
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    if (!this.serverCapabilities.prompts) return [];
+    return this.listAllPages('prompts/list', 'prompts', promptsListResultSchema);
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}, options: McpRequestOptions = {}): Promise<McpPromptResult> {
+    this.requireCapability('prompts');
+    return this.sendRequest('prompts/get', { name, arguments: args }, getPromptResultSchema, options);
+  }
+}
@@ -0,0 +1,167 @@
+import { spawn } from 'child_process';
+import { redact } from '../util/redact.js';
+import type { Logger } from '../util/logger.js';
+
+/**
+ * Where an environment's `pingone-mcp-server login` stands. `expired` means
+ * nobody finished the browser step before the login timed out.
+ */
+export type AuthState = 'pending' | 'authenticated' | 'failed' | 'expired';
+
+/** The page the user has to open to finish a login, as printed by the binary */
+export interface LoginPrompt {
+  /** `device` when the page asks for a code, `authorization` for a plain sign-in link */
+  kind: 'authorization' | 'device';
+  url: string;
+  userCode?: string;
+}
+
+export interface AuthStatus {
+  state: AuthState;
+  /** Set once the login has printed its URL; dropped when the login ends */
+  prompt?: LoginPrompt;
+  error?: string;
+  startedAt: number;
+  /** When a pending login gives up */
+  expiresAt: number;
+  updatedAt: number;
+}
+
+export interface LoginOutcome {
+  state: Exclude<AuthState, 'pending'>;
+  error?: string;
+}
+
+export interface LoginOptions {
+  command: string;
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  timeoutMs: number;
+  log: Logger;
+  /** Called once, with the first URL the login prints */
+  onPrompt: (prompt: LoginPrompt) => void;
+}
+
+export interface LoginHandle {
+  /** Settles when the process ends, times out or is cancelled; never rejects */
+  readonly result: Promise<LoginOutcome>;
+  cancel(): void;
+}
+
+/** How long the user has to finish the browser step */
+export const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>`]+/g;
+const USER_CODE_PATTERN = /(?:user[ _-]?code|enter (?:the )?code)\W{0,20}([A-Z0-9]{4,}(?:-[A-Z0-9]{4,})*)/i;
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+// Keeps a chatty login from growing the buffer without bound
+const MAX_OUTPUT = 64 * 1024;
+
+/**
+ * The sign-in link in the login's output. Links to this machine are the
+ * binary's own callback listener and no use to a remote browser, so they
+ * are skipped; of the rest an authorize or device page is preferred.
+ */
+export function parseLoginPrompt(output: string): LoginPrompt | undefined {
+  const urls = (output.match(URL_PATTERN) ?? [])
+    .map(url => url.replace(/[.,;:)\]]+$/, ''))
+    .filter(url => {
+      try {
+        return !LOCAL_HOSTS.includes(new URL(url).hostname);
+      } catch {
+        return false;
+      }
+    });
+  const url = urls.find(u => /authorize|device|activate|verif/i.test(u)) ?? urls[0];
+  if (!url) return undefined;
+
+  let userCode = new URL(url).searchParams.get('user_code') ?? undefined;
+  if (!userCode) {
+    const match = USER_CODE_PATTERN.exec(output)?.[1];
+    // Device codes are upper case; this skips prose such as "code flow"
+    userCode = match && match === match.toUpperCase() ? match : undefined;
+  }
+  const device = Boolean(userCode) || /device|activate/i.test(new URL(url).pathname);
+  return { kind: device ? 'device' : 'authorization', url, userCode };
+}
+
+// The last line the binary printed is usually the reason it gave up
+function lastLine(output: string): string | undefined {
+  const line = output.trim().split('\n').pop()?.trim();
+  return line ? redact(line).slice(0, 300) : undefined;
+}
+
+/**
+ * Run `<command> login` without waiting for it. The sign-in link goes to
+ * `onPrompt` as soon as it is printed; the exit code decides the outcome.
+ */
+export function startLogin(options: LoginOptions): LoginHandle {
+  const { log } = options;
+  log.info('Spawning login process');
+
+  const loginProcess = spawn(options.command, ['login'], {
+    cwd: options.cwd,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: options.env
+  });
+
+  let output = '';
+  let prompted = false;
+  // Set once timed out or cancelled, so the exit that follows isn't reported too
+  let settled = false;
+  let settle: (outcome: LoginOutcome) => void = () => {};
+  const result = new Promise<LoginOutcome>(resolve => {
+    settle = outcome => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      resolve(outcome);
+    };
+  });
+
+  const onOutput = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+    const text = data.toString();
+    log.debug('Login output', { stream, output: text.trim() });
+    output = (output + text).slice(-MAX_OUTPUT);
+    if (prompted) return;
+    const prompt = parseLoginPrompt(output);
+    if (prompt) {
+      prompted = true;
+      log.info('Login is waiting for the browser', { kind: prompt.kind });
+      options.onPrompt(prompt);
+    }
+  };
+  loginProcess.stdout.on('data', onOutput('stdout'));
+  loginProcess.stderr.on('data', onOutput('stderr'));
+
+  loginProcess.on('close', code => {
+    if (settled) return;
+    if (code === 0) {
+      log.info('Login completed');
+      settle({ state: 'authenticated' });
+    } else {
+      log.warn('Login exited with an error', { code, output });
+      settle({ state: 'failed', error: lastLine(output) ?? `Login exited with code ${code}` });
+    }
+  });
+
+  loginProcess.on('error', err => {
+    if (settled) return;
+    log.error('Login process error', { error: err });
+    settle({ state: 'failed', error: err.message });
+  });
+
+  const timeout = setTimeout(() => {
+    log.warn('Login timed out, killing process');
+    settle({ state: 'expired', error: 'The login was not completed in time' });
+    loginProcess.kill();
+  }, options.timeoutMs);
+
+  return {
+    result,
+    cancel: () => {
+      settle({ state: 'failed', error: 'Login cancelled' });
+      loginProcess.kill();
+    }
+  };
+}
@@ -0,0 +1,43 @@
+/** An ID found in a tool result and where it sits */
+export interface ResourceId {
+  id: string;
+  /** Dotted path inside the result data, e.g. `id` or `application.id` */
+  path: string;
+}
+
+// Short values like "1" or "WEB" would be rewritten all over a replayed script
+const MIN_ID_LENGTH = 8;
+
+// HAL links repeat IDs that already appear elsewhere
+const SKIPPED_KEYS = new Set(['_links', '_embedded']);
+
+/**
+ * IDs of the resources a tool returned: every string `id` property on the
+ * result object and on objects nested up to two levels below it, outermost
+ * first. Lists are not searched; a create call returns the one resource.
+ */
+export function extractResourceIds(data: unknown): ResourceId[] {
+  const found: ResourceId[] = [];
+  const visit = (node: unknown, path: string[], depth: number) => {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return;
+    const record = node as Record<string, unknown>;
+    if (typeof record.id === 'string' && record.id.length >= MIN_ID_LENGTH) {
+      found.push({ id: record.id, path: [...path, 'id'].join('.') });
+    }
+    if (depth >= 2) return;
+    for (const [key, value] of Object.entries(record)) {
+      if (!SKIPPED_KEYS.has(key) && key !== 'id') visit(value, [...path, key], depth + 1);
+    }
+  };
+  visit(data, [], 0);
+  return found;
+}
+
+/**
+ * The resource a tool name is about: `create-application` gives
+ * `application`, `create-sign-on-policy` gives `sign-on-policy`.
+ */
+export function resourceTypeFromTool(toolName: string): string {
+  const dash = toolName.indexOf('-');
+  return dash === -1 ? toolName : toolName.slice(dash + 1);
+}
@@ -0,0 +1,190 @@
+import type { AuditOrigin } from '../audit/auditLog.js';
+import { McpToolDefinition } from './mcpClient.js';
+import { extractResourceIds, resourceTypeFromTool } from './resourceIds.js';
+import { toolResultData, toolResultError } from './toolResult.js';
+
+/** A resource a `create-*` call made in this session */
+export interface TrackedResource {
+  type: string;
+  id: string;
+  name?: string;
+  environmentId?: string;
+  /** Session's name for the environment connection it was created through */
+  environment?: string;
+  /** The create tool that made it */
+  tool: string;
+  /**
+   * ID arguments of the create call (`applicationId` for a secret, say).
+   * Delete tools for nested resources need the same parents.
+   */
+  scope: Record<string, string>;
+  /** IDs of other tracked resources this one was created under or with */
+  dependsOn: string[];
+  origin: AuditOrigin;
+  createdAt: number;
+}
+
+export type TeardownStatus = 'planned' | 'deleted' | 'failed' | 'skipped';
+
+export interface TeardownStep {
+  resource: TrackedResource;
+  /** The delete tool and arguments; absent when no delete tool matches */
+  tool?: string;
+  args?: Record<string, unknown>;
+  status: TeardownStatus;
+  error?: string;
+}
+
+export interface TeardownReport {
+  dryRun: boolean;
+  steps: TeardownStep[];
+  summary: Record<TeardownStatus, number>;
+}
+
+export type TeardownToolCaller = (name: string, args: Record<string, unknown>, resource: TrackedResource) => Promise<any>;
+
+function displayName(resource: unknown): string | undefined {
+  if (!resource || typeof resource !== 'object') return undefined;
+  for (const key of ['name', 'username', 'displayName', 'title']) {
+    const value = (resource as Record<string, unknown>)[key];
+    if (typeof value === 'string') return value;
+  }
+  return undefined;
+}
+
+/**
+ * The resource a successful `create-*` call made: the outermost ID in its
+ * result. Undefined for other tools and for results without an ID.
+ */
+export function resourceFromCreate(
+  toolName: string,
+  args: Record<string, unknown> | undefined,
+  result: unknown,
+  context: { environmentId?: string; environment?: string; origin: AuditOrigin; tracked: TrackedResource[] }
+): TrackedResource | undefined {
+  if (!toolName.startsWith('create-') || toolResultError(result)) return undefined;
+  const data = toolResultData(result);
+  const [primary] = extractResourceIds(data);
+  if (!primary) return undefined;
+
+  const scope: Record<string, string> = {};
+  for (const [key, value] of Object.entries(args ?? {})) {
+    if (/Id$/.test(key) && key !== 'environmentId' && typeof value === 'string') {
+      scope[key] = value;
+    }
+  }
+  const owner = primary.path.split('.').slice(0, -1).reduce((node: any, key) => node?.[key], data);
+  const argValues = JSON.stringify(args ?? {});
+  return {
+    type: resourceTypeFromTool(toolName),
+    id: primary.id,
+    name: displayName(owner),
+    environmentId: context.environmentId,
+    environment: context.environment,
+    tool: toolName,
+    scope,
+    dependsOn: context.tracked.filter(r => argValues.includes(r.id)).map(r => r.id),
+    origin: context.origin,
+    createdAt: Date.now()
+  };
+}
+
+/** The resource ID a successful `delete-*` call removed, if it names one */
+export function deletedResourceId(toolName: string, args: Record<string, unknown> | undefined, tracked: TrackedResource[]): string | undefined {
+  if (!toolName.startsWith('delete-')) return undefined;
+  const type = resourceTypeFromTool(toolName);
+  const values = new Set(Object.values(args ?? {}).filter(v => typeof v === 'string'));
+  return tracked.find(r => r.type === type && values.has(r.id))?.id;
+}
+
+function camelCase(type: string): string {
+  return type.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Arguments for the delete tool of a resource, from its schema: the
+ * environment, the resource's own ID (`<type>Id`, or `id`, or the one
+ * remaining required ID argument) and any parent IDs the create call used.
+ */
+function deleteArgs(tool: McpToolDefinition, resource: TrackedResource): Record<string, unknown> {
+  const properties = Object.keys(tool.inputSchema?.properties ?? {});
+  const required: string[] = tool.inputSchema?.required ?? [];
+  const args: Record<string, unknown> = {};
+  if (properties.includes('environmentId') && resource.environmentId) {
+    args.environmentId = resource.environmentId;
+  }
+  for (const key of properties) {
+    if (key in resource.scope) args[key] = resource.scope[key];
+  }
+  const ownKey = [`${camelCase(resource.type)}Id`, 'id'].find(key => properties.includes(key))
+    ?? required.find(key => !(key in args));
+  if (ownKey) args[ownKey] = resource.id;
+  return args;
+}
+
+/**
+ * Delete order: newest first, which puts every resource ahead of the ones it
+ * was created under. Dependencies recorded across environments or out of
+ * creation order are pulled ahead explicitly.
+ */
+export function teardownOrder(resources: TrackedResource[]): TrackedResource[] {
+  const ordered: TrackedResource[] = [];
+  const placed = new Set<string>();
+  const place = (resource: TrackedResource, visiting: Set<string>) => {
+    if (placed.has(resource.id) || visiting.has(resource.id)) return;
+    visiting.add(resource.id);
+    // Dependents go first, so look for tracked resources that depend on this one
+    for (const dependent of [...resources].reverse()) {
+      if (dependent.dependsOn.includes(resource.id)) place(dependent, visiting);
+    }
+    placed.add(resource.id);
+    ordered.push(resource);
+  };
+  for (const resource of [...resources].reverse()) {
+    place(resource, new Set());
+  }
+  return ordered;
+}
+
+/**
+ * Delete the given resources with their matching `delete-<type>` tools, in
+ * teardownOrder. A dry run only reports what would be called. A failed
+ * delete doesn't stop the rest; its resource stays tracked.
+ */
+export async function runTeardown(
+  resources: TrackedResource[],
+  tools: McpToolDefinition[],
+  callTool: TeardownToolCaller,
+  options: { dryRun?: boolean; signal?: AbortSignal; onStep?: (step: TeardownStep) => void } = {}
+): Promise<TeardownReport> {
+  const dryRun = options.dryRun ?? false;
+  const steps: TeardownStep[] = [];
+  for (const resource of teardownOrder(resources)) {
+    const tool = tools.find(t => t.name === `delete-${resource.type}`);
+    let step: TeardownStep;
+    if (!tool) {
+      step = { resource, status: 'skipped', error: `No delete-${resource.type} tool` };
+    } else if (options.signal?.aborted) {
+      step = { resource, tool: tool.name, args: deleteArgs(tool, resource), status: 'skipped', error: 'Teardown cancelled' };
+    } else {
+      step = { resource, tool: tool.name, args: deleteArgs(tool, resource), status: 'planned' };
+      if (!dryRun) {
+        try {
+          const result = await callTool(tool.name, step.args!, resource);
+          const error = toolResultError(result);
+          step.status = error ? 'failed' : 'deleted';
+          step.error = error;
+        } catch (e) {
+          step.status = 'failed';
+          step.error = (e as Error).message;
+        }
+      }
+    }
+    steps.push(step);
+    options.onStep?.(step);
+  }
+
+  const summary: Record<TeardownStatus, number> = { planned: 0, deleted: 0, failed: 0, skipped: 0 };
+  for (const step of steps) summary[step.status]++;
+  return { dryRun, steps, summary };
+}
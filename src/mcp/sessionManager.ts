@@ -1,96 +1,794 @@
+import { McpClient, McpConnectionStatus, McpRequestOptions, McpStatusDetail, McpToolDefinition } from './mcpClient.js';
 import { StdioMcpClient, McpClientOptions } from './stdioClient.js';
+import { HttpMcpClient, HttpMcpClientOptions } from './httpClient.js';
+import { ChatMessage } from '../ai/llmProvider.js';
 import { WebSocket } from 'ws';
+import { v4 as uuid } from 'uuid';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { spawn } from 'child_process';
+import {
+  PodInfo,
+  SessionOwnedElsewhereError,
+  SessionStore,
+  StoredSession,
+  podFromEnv
+} from '../store/sessionStore.js';
+import { MemorySessionStore } from '../store/memorySessionStore.js';
+import { RateLimitError, SessionQuotas } from '../limits/rateLimits.js';
+import type { ChatEnvironments, ChatOptions, ToolCallReport } from '../ai/chatService.js';
+import type { ServerEvent } from '../api/wsProtocol.js';
+import { AuditLog, AuditOrigin } from '../audit/auditLog.js';
+import { ToolPolicy } from './toolPolicy.js';
+import { toolResultData } from './toolResult.js';
+import { extractResourceIds } from './resourceIds.js';
+import { AuthState, AuthStatus, LOGIN_TIMEOUT_MS, LoginHandle, LoginPrompt, startLogin } from './pingoneLogin.js';
+import {
+  TeardownReport,
+  TeardownStep,
+  TrackedResource,
+  deletedResourceId,
+  resourceFromCreate,
+  runTeardown
+} from './resourceLedger.js';
+import { RecordedCall } from '../playbooks/recording.js';
+import { maskSecretKeys } from '../util/redact.js';
+import { createLogger } from '../util/logger.js';
+import { InvalidRequestError, NotConfiguredError, NotFoundError } from '../util/errors.js';
+import type { SessionUser } from '../auth/oidc.js';
+import { Metrics, PromptSource, SessionCounts } from '../metrics/metrics.js';
+
+export interface PingOneConfig {
+  environmentId: string;
+  clientId: string;
+  region: string;
+  topLevelDomain: string;
+}
+
+/** Name of a session's first environment when the client doesn't pick one */
+export const DEFAULT_ENVIRONMENT_NAME = 'default';
+
+const ENVIRONMENT_NAME_PATTERN = /^[A-Za-z0-9][\w-]{0,31}$/;
+
+/** One named PingOne connection of a session */
+interface EnvironmentConnection {
+  name: string;
+  config: PingOneConfig;
+  mcpClient?: McpClient;
+  // The MCP server keeps its credentials here, so environments never share tokens
+  workDir: string;
+  // Only for the stdio transport, which logs in with the local binary
+  auth?: AuthStatus;
+  login?: LoginHandle;
+}
+
+export interface EnvironmentSummary {
+  name: string;
+  environmentId: string;
+  region: string;
+  connected: boolean;
+  status?: McpConnectionStatus;
+  active: boolean;
+  /** PingOne login state; absent for the HTTP transport */
+  auth?: AuthState;
+}
+
+export interface AdminEnvironmentSummary extends EnvironmentSummary {
+  transport?: 'stdio' | 'http';
+  /** The MCP server's process ID (stdio transport, while it is running) */
+  pid?: number;
+}
+
+/** What the admin API shows about one live session */
+export interface AdminSessionSummary {
+  sessionId: string;
+  createdAt: number;
+  lastActivity: number;
+  clientIp?: string;
+  user?: SessionUser;
+  webSockets: number;
+  chatRunning: boolean;
+  llmProviderId?: string;
+  conversations: number;
+  activeEnvironment?: string;
+  environments: AdminEnvironmentSummary[];
+  pendingPrompts: { id: string; source: PromptSource; createdAt: number }[];
+}
+
+/**
+ * A chat turn, playbook run or teardown was started while another is still
+ * running in the session. REST answers 409, WebSocket clients get `chat_busy`.
+ */
+export class ChatBusyError extends Error {
+  constructor(readonly sessionId: string) {
+    super('A chat is already in progress for this session');
+    this.name = 'ChatBusyError';
+  }
+}
+
+/** McpRequestOptions plus the named environment to call; defaults to the active one */
+export interface ToolCallOptions extends McpRequestOptions {
+  environment?: string;
+}
+
+/** Sessions idle this long are closed and dropped from the store */
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Pods re-advertise themselves this often; a pod missing for POD_TTL_MS is presumed gone
+const POD_HEARTBEAT_MS = 10 * 1000;
+const POD_TTL_MS = 30 * 1000;
+
+const log = createLogger('session');
+
+export interface Conversation {
+  id: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * How SessionManager reaches the MCP server: a per-session child process
+ * (stdio) or a remotely hosted server over Streamable HTTP.
+ */
+export type McpTransportOptions =
+  | ({ transport?: 'stdio' } & Omit<McpClientOptions, 'onPrompt'>)
+  | ({ transport: 'http' } & Omit<HttpMcpClientOptions, 'onPrompt'>);
 
 interface UserSession {
   sessionId: string;
-  mcpClient?: StdioMcpClient;
+  // The active environment's client; see environments
+  mcpClient?: McpClient;
   wsConnections: Set<WebSocket>;
   lastActivity: number;
   promptResolvers: Map<string, {
     resolve: (value: any) => void;
     reject: (reason?: any) => void;
     timeout: NodeJS.Timeout;
+    source: PromptSource;
+    createdAt: number;
   }>;
   workDir: string;
-  pingoneConfig?: {
-    environmentId: string;
-    clientId: string;
-    region: string;
-    topLevelDomain: string;
-  };
+  llmProviderId?: string;
+  // Conversation history is owned by the server; clients only send new user turns
+  conversations: Map<string, Conversation>;
+  activeConversationId?: string;
+  // Set while a chat turn is running so it can be cancelled
+  activeChat?: AbortController;
+  // Kept after a takeover from another pod so the client can pre-fill its config form
+  pingoneConfig?: PingOneConfig;
+  // Named PingOne connections; mcpClient and pingoneConfig mirror the active one
+  environments: Map<string, EnvironmentConnection>;
+  activeEnvironment?: string;
+  createdAt: number;
+  // Address the session was first seen from, for the per-IP session limit
+  clientIp?: string;
+  // Set when OIDC login is enabled; used by the audit log and per-user limit
+  user?: SessionUser;
+  // Successful mutating tool calls, in order, for export as a playbook
+  recording: RecordedCall[];
+  // Resources created through this session that haven't been deleted yet
+  ledger: TrackedResource[];
 }
 
+/**
+ * Owns the live side of each session (MCP client, sockets, prompts) on this
+ * pod and mirrors the durable side to a SessionStore. A session belongs to
+ * one pod at a time; another pod only takes it over once the owner is gone.
+ */
 export class SessionManager {
   private sessions = new Map<string, UserSession>();
-  private readonly IDLE_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+  // Sessions being loaded from the store, so concurrent requests share one load
+  private loading = new Map<string, Promise<UserSession>>();
+  private readonly IDLE_TIMEOUT = SESSION_IDLE_TIMEOUT_MS;
   private cleanupInterval: NodeJS.Timeout;
+  private heartbeatInterval: NodeJS.Timeout;
+  // MCP clients being started; they count against the limit before they are ready
+  private startingMcpClients = 0;
 
   constructor(
-    private readonly mcpOptions: Omit<McpClientOptions, 'onPrompt' | 'onResourceRequest'>
+    private readonly mcpOptions: McpTransportOptions,
+    private readonly store: SessionStore = new MemorySessionStore(SESSION_IDLE_TIMEOUT_MS),
+    readonly pod: PodInfo = podFromEnv(),
+    readonly quotas: SessionQuotas = new SessionQuotas(),
+    readonly audit: AuditLog = AuditLog.fromEnv(pod.id),
+    readonly toolPolicy: ToolPolicy = ToolPolicy.fromEnv(),
+    readonly metrics: Metrics = new Metrics()
   ) {
+    metrics.observeSessions(() => this.sessionCounts());
+
     // Periodic cleanup of idle sessions
     this.cleanupInterval = setInterval(() => {
       this.cleanupIdleSessions();
     }, 5 * 60 * 1000); // Check every 5 minutes
+
+    this.heartbeat();
+    this.heartbeatInterval = setInterval(() => this.heartbeat(), POD_HEARTBEAT_MS);
   }
 
-  async getOrCreateSession(sessionId: string): Promise<UserSession> {
+  private sessionCounts(): SessionCounts {
+    let webSockets = 0;
+    let mcpProcesses = 0;
+    for (const session of this.sessions.values()) {
+      webSockets += session.wsConnections.size;
+      for (const environment of session.environments.values()) {
+        if (environment.mcpClient instanceof StdioMcpClient && environment.mcpClient.running) mcpProcesses++;
+      }
+    }
+    return { sessions: this.sessions.size, webSockets, mcpProcesses };
+  }
+
+  private heartbeat() {
+    this.store.registerPod(this.pod, POD_TTL_MS).catch(e => {
+      log.error('Failed to register pod', { podId: this.pod.id, error: (e as Error).message });
+    });
+  }
+
+  /**
+   * Return this pod's session, loading it from the store on first use.
+   * Throws SessionOwnedElsewhereError if another live pod holds it, and
+   * RateLimitError if clientIp or user already has too many sessions here.
+   * A session keeps the first user it is seen with.
+   */
+  async getOrCreateSession(sessionId: string, clientIp?: string, user?: SessionUser): Promise<UserSession> {
     let session = this.sessions.get(sessionId);
     
     if (!session) {
-      console.log(`[SESSION] Creating new session: ${sessionId}`);
-      
-      // Create session-specific working directory for credential isolation
-      const sessionWorkDir = path.join(os.tmpdir(), 'mcp-sessions', sessionId);
-      if (!fs.existsSync(sessionWorkDir)) {
-        fs.mkdirSync(sessionWorkDir, { recursive: true });
+      let loading = this.loading.get(sessionId);
+      if (!loading) {
+        this.checkSessionsPerIp(clientIp);
+        this.checkSessionsPerUser(user);
+        loading = this.loadSession(sessionId, clientIp, user).finally(() => this.loading.delete(sessionId));
+        this.loading.set(sessionId, loading);
       }
-      console.log(`[SESSION ${sessionId}] Working directory: ${sessionWorkDir}`);
+      session = await loading;
+    }
 
-      session = {
-        sessionId,
-        mcpClient: undefined,
-        wsConnections: new Set(),
-        lastActivity: Date.now(),
-        promptResolvers: new Map(),
-        workDir: sessionWorkDir,
-        pingoneConfig: undefined
-      };
+    session.lastActivity = Date.now();
+    this.persist(session);
+    return session;
+  }
 
-      this.sessions.set(sessionId, session);
+  /**
+   * Like getOrCreateSession, but only for a session that is still live here
+   * or in the store; undefined once it has ended (logout, idle timeout, an
+   * operator). Bearer tokens go through this so they can't bring an ended
+   * session back, and the session keeps the user it was stored with.
+   */
+  async resumeSession(sessionId: string, clientIp?: string): Promise<UserSession | undefined> {
+    if (!this.sessions.has(sessionId) && !this.loading.has(sessionId) && !(await this.store.getSession(sessionId))) {
+      return undefined;
     }
+    return this.getOrCreateSession(sessionId, clientIp);
+  }
 
-    session.lastActivity = Date.now();
+  private checkSessionsPerIp(clientIp?: string) {
+    const limit = this.quotas.limits.sessionsPerIp;
+    if (!clientIp || limit <= 0) return;
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (session.clientIp === clientIp) count++;
+    }
+    if (count >= limit) {
+      throw new RateLimitError('sessionsPerIp', `Too many sessions from ${clientIp} (limit ${limit})`, this.IDLE_TIMEOUT);
+    }
+  }
+
+  private checkSessionsPerUser(user?: SessionUser) {
+    const limit = this.quotas.limits.sessionsPerUser;
+    if (!user || limit <= 0) return;
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (session.user?.subject === user.subject && session.user.issuer === user.issuer) count++;
+    }
+    if (count >= limit) {
+      throw new RateLimitError('sessionsPerUser', `Too many sessions for ${user.email ?? user.subject} (limit ${limit})`, this.IDLE_TIMEOUT);
+    }
+  }
+
+  private async loadSession(sessionId: string, clientIp?: string, user?: SessionUser): Promise<UserSession> {
+    const stored = await this.store.getSession(sessionId);
+    const previousOwner = stored?.ownerPodId;
+    if (previousOwner && previousOwner !== this.pod.id) {
+      const owner = await this.store.getPod(previousOwner);
+      if (owner) {
+        throw new SessionOwnedElsewhereError(sessionId, owner);
+      }
+      log.info('Taking over session from a pod that is no longer running', { sessionId, previousOwner });
+    }
+
+    const now = Date.now();
+    await this.store.saveSession({ ...(stored ?? { sessionId, createdAt: now }), lastActivity: now });
+    if (!(await this.store.claimSession(sessionId, this.pod.id, previousOwner))) {
+      // Another pod claimed it between our read and our write
+      const current = await this.store.getSession(sessionId);
+      const owner = current?.ownerPodId ? await this.store.getPod(current.ownerPodId) : undefined;
+      throw new SessionOwnedElsewhereError(sessionId, owner ?? { id: current?.ownerPodId ?? 'unknown' });
+    }
+
+    log.info(stored ? 'Restoring session' : 'Creating new session', { sessionId, subject: (stored?.user ?? user)?.subject });
+    
+    // Create session-specific working directory for credential isolation
+    const sessionWorkDir = path.join(os.tmpdir(), 'mcp-sessions', sessionId);
+    if (!fs.existsSync(sessionWorkDir)) {
+      fs.mkdirSync(sessionWorkDir, { recursive: true });
+    }
+    log.debug('Session working directory', { sessionId, workDir: sessionWorkDir });
+
+    const [conversations, recording, ledger] = stored
+      ? await Promise.all([
+        this.store.getConversations(sessionId),
+        this.store.getRecording(sessionId),
+        this.store.getLedger(sessionId)
+      ])
+      : [[], [], []];
+    // Sessions stored before named environments only have pingoneConfig
+    const storedEnvironments = stored?.environments
+      ?? (stored?.pingoneConfig ? { [DEFAULT_ENVIRONMENT_NAME]: stored.pingoneConfig } : {});
+    const session: UserSession = {
+      sessionId,
+      mcpClient: undefined,
+      wsConnections: new Set(),
+      lastActivity: now,
+      createdAt: stored?.createdAt ?? now,
+      promptResolvers: new Map(),
+      workDir: sessionWorkDir,
+      conversations: new Map(conversations.map(c => [c.id, c])),
+      activeConversationId: stored?.activeConversationId,
+      llmProviderId: stored?.llmProviderId,
+      pingoneConfig: stored?.pingoneConfig,
+      environments: new Map(Object.entries(storedEnvironments).map(([name, config]) => [
+        name,
+        { name, config, workDir: this.environmentWorkDir(sessionWorkDir, name) }
+      ])),
+      activeEnvironment: stored?.activeEnvironment ?? (stored?.pingoneConfig ? DEFAULT_ENVIRONMENT_NAME : undefined),
+      clientIp,
+      user: stored?.user ?? user,
+      recording,
+      ledger
+    };
+
+    this.sessions.set(sessionId, session);
     return session;
   }
 
-  async initializeMcpClient(sessionId: string, config: {
-    environmentId: string;
-    clientId: string;
-    region: string;
-    topLevelDomain: string;
-  }): Promise<void> {
+  private toStored(session: UserSession): StoredSession {
+    return {
+      sessionId: session.sessionId,
+      createdAt: session.createdAt,
+      lastActivity: session.lastActivity,
+      llmProviderId: session.llmProviderId,
+      activeConversationId: session.activeConversationId,
+      pingoneConfig: session.pingoneConfig,
+      environments: Object.fromEntries(Array.from(session.environments.values()).map(e => [e.name, e.config])),
+      activeEnvironment: session.activeEnvironment,
+      user: session.user
+    };
+  }
+
+  // The first environment keeps the session directory, where credentials lived before names existed
+  private environmentWorkDir(sessionWorkDir: string, name: string): string {
+    return name === DEFAULT_ENVIRONMENT_NAME ? sessionWorkDir : path.join(sessionWorkDir, 'environments', name);
+  }
+
+  // Store writes don't hold up the caller; a failed write only costs durability
+  private persist(session: UserSession): void {
+    this.store.saveSession(this.toStored(session)).catch(e => {
+      log.error('Failed to save session', { sessionId: session.sessionId, error: (e as Error).message });
+    });
+  }
+
+  private persistConversation(session: UserSession, conversation: Conversation): void {
+    this.store.saveConversation(session.sessionId, conversation).catch(e => {
+      log.error('Failed to save conversation', { sessionId: session.sessionId, conversationId: conversation.id, error: (e as Error).message });
+    });
+  }
+
+  /**
+   * Connect a named PingOne environment and make it the active one. Without
+   * a name this (re)connects the active environment, or "default" for a new
+   * session; a name that is already connected is just switched to.
+   */
+  async initializeMcpClient(sessionId: string, config: PingOneConfig, name?: string): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    if (session.mcpClient) {
-      console.log(`[SESSION ${sessionId}] MCP client already initialized`);
+    const environmentName = name || session.activeEnvironment || DEFAULT_ENVIRONMENT_NAME;
+    if (!ENVIRONMENT_NAME_PATTERN.test(environmentName)) {
+      throw new InvalidRequestError('Environment names are 1-32 letters, digits, "-" or "_", starting with a letter or digit');
+    }
+    const existing = session.environments.get(environmentName);
+    if (existing?.mcpClient) {
+      log.debug('Environment already initialized', { sessionId, environment: environmentName });
+      this.setActiveEnvironment(session, environmentName);
       return;
     }
 
-    console.log(`[SESSION ${sessionId}] 🚀 Initializing MCP client with config:`, {
+    const maxEnvironments = this.quotas.limits.environmentsPerSession;
+    if (!existing && maxEnvironments > 0 && session.environments.size >= maxEnvironments) {
+      throw new RateLimitError(
+        'environmentsPerSession',
+        `This session already has ${maxEnvironments} environments; remove one before adding another`
+      );
+    }
+
+    const maxClients = this.quotas.limits.mcpClients;
+    if (maxClients > 0 && this.countMcpClients() >= maxClients) {
+      throw new RateLimitError('mcpClients', `The server is at its limit of ${maxClients} PingOne connections; try again later`, 60 * 1000);
+    }
+
+    log.info('Initializing MCP client', {
+      sessionId,
+      environment: environmentName,
       environmentId: config.environmentId,
       clientId: config.clientId,
       region: config.region,
       topLevelDomain: config.topLevelDomain
     });
-    session.pingoneConfig = config;
+    const environment: EnvironmentConnection = {
+      name: environmentName,
+      config,
+      workDir: this.environmentWorkDir(session.workDir, environmentName)
+    };
+    fs.mkdirSync(environment.workDir, { recursive: true });
+    session.environments.set(environmentName, environment);
+    // A working connection stays active until this one is up
+    if (!session.mcpClient) {
+      this.setActiveEnvironment(session, environmentName);
+    } else {
+      this.persist(session);
+    }
+
+    const mcpClient = this.createMcpClient(session, environment);
+
+    this.startingMcpClients++;
+    try {
+      await mcpClient.initialize();
+    } catch (e) {
+      // Don't leave a half-started process (or its restart timer) behind
+      await mcpClient.close();
+      throw e;
+    } finally {
+      this.startingMcpClients--;
+    }
+    environment.mcpClient = mcpClient;
+    this.setActiveEnvironment(session, environmentName);
+    log.info('MCP client initialized', { sessionId, environment: environmentName, tools: mcpClient.listTools().length });
+    
+    // Remote servers handle their own authentication; only a local binary needs login
+    if (this.mcpOptions.transport !== 'http') {
+      this.beginLogin(session, environment);
+    }
+  }
+
+  private countMcpClients(): number {
+    let count = this.startingMcpClients;
+    for (const session of this.sessions.values()) {
+      for (const environment of session.environments.values()) {
+        if (environment.mcpClient) count++;
+      }
+    }
+    return count;
+  }
+
+  // Point the session's mcpClient and pingoneConfig at another environment and tell its browsers
+  private setActiveEnvironment(session: UserSession, name: string | undefined): void {
+    const environment = name ? session.environments.get(name) : undefined;
+    session.activeEnvironment = name;
+    session.mcpClient = environment?.mcpClient;
+    session.pingoneConfig = environment?.config;
+    this.persist(session);
+    this.announceEnvironments(session);
+  }
+
+  private announceEnvironments(session: UserSession): void {
+    this.broadcast(session, {
+      type: 'environments',
+      active: session.activeEnvironment,
+      environments: this.listEnvironments(session.sessionId),
+      tools: session.mcpClient?.listTools() ?? []
+    });
+  }
+
+  listEnvironments(sessionId: string): EnvironmentSummary[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+    return Array.from(session.environments.values()).map(environment => ({
+      name: environment.name,
+      environmentId: environment.config.environmentId,
+      region: environment.config.region,
+      connected: Boolean(environment.mcpClient),
+      status: environment.mcpClient?.status,
+      active: environment.name === session.activeEnvironment,
+      auth: environment.auth?.state
+    }));
+  }
+
+  /** Make a connected environment the one chat and tool calls use by default */
+  switchEnvironment(sessionId: string, name: string): EnvironmentSummary[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const environment = session.environments.get(name);
+    if (!environment) {
+      throw new NotFoundError(`Unknown environment: ${name}`);
+    }
+    if (!environment.mcpClient) {
+      throw new NotConfiguredError(`Environment ${name} is not connected; configure it first`);
+    }
+    log.info('Switched active environment', { sessionId, environment: name });
+    this.setActiveEnvironment(session, name);
+    return this.listEnvironments(sessionId);
+  }
+
+  /**
+   * Disconnect an environment and forget its config. Removing the active
+   * one switches to another connected environment, if there is one.
+   */
+  async removeEnvironment(sessionId: string, name: string): Promise<EnvironmentSummary[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const environment = session.environments.get(name);
+    if (!environment) {
+      throw new NotFoundError(`Unknown environment: ${name}`);
+    }
+    session.environments.delete(name);
+    this.cancelLogin(environment);
+    await environment.mcpClient?.close().catch(e => {
+      log.error('Error closing MCP client', { sessionId, environment: name, error: e });
+    });
+    log.info('Removed environment', { sessionId, environment: name });
+    if (session.activeEnvironment === name) {
+      const next = Array.from(session.environments.values()).find(e => e.mcpClient);
+      this.setActiveEnvironment(session, next?.name);
+    } else {
+      this.persist(session);
+      this.announceEnvironments(session);
+    }
+    return this.listEnvironments(sessionId);
+  }
+
+  /** Connected environments for ChatService, so the model can target one by name */
+  private chatEnvironments(sessionId: string): ChatEnvironments | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session?.activeEnvironment) return undefined;
+    const clients = new Map<string, McpClient>();
+    const descriptions: Record<string, string> = {};
+    for (const environment of session.environments.values()) {
+      if (!environment.mcpClient) continue;
+      clients.set(environment.name, environment.mcpClient);
+      descriptions[environment.name] = `environment ID ${environment.config.environmentId}, region ${environment.config.region}`;
+    }
+    return { active: session.activeEnvironment, clients, descriptions };
+  }
+
+  /**
+   * Limit, audit and metrics hooks and the connected environments for
+   * ChatService.chat, bound to one session. Call once per chat turn.
+   */
+  chatHooks(
+    sessionId: string
+  ): Pick<ChatOptions, 'beforeModelTurn' | 'beforeToolCall' | 'maxToolIterations' | 'afterToolCall' | 'onUsage' | 'environments'> {
+    let modelRequests = 0;
+    return {
+      environments: this.chatEnvironments(sessionId),
+      beforeModelTurn: () => {
+        this.quotas.consumeLlmTurn(sessionId);
+        // A turn is counted once it gets past the limits
+        if (modelRequests++ === 0) this.metrics.chatTurnStarted();
+        this.metrics.modelRequested();
+      },
+      beforeToolCall: () => this.quotas.consumeToolCall(sessionId),
+      maxToolIterations: this.quotas.limits.toolIterations,
+      afterToolCall: report => this.recordToolCall(sessionId, 'chat', report),
+      onUsage: (usage, provider, model) => this.metrics.recordUsage(usage, provider, model)
+    };
+  }
+
+  /**
+   * Call a tool outside of chat (REST or WebSocket), on the active
+   * environment or the one named in options, counting it against the quota
+   * and writing an audit entry.
+   */
+  async callTool(
+    sessionId: string,
+    name: string,
+    args: Record<string, any>,
+    origin: AuditOrigin,
+    options: ToolCallOptions = {}
+  ): Promise<any> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.mcpClient) {
+      throw new NotConfiguredError();
+    }
+    const { environment = session.activeEnvironment, ...requestOptions } = options;
+    const client = environment ? session.environments.get(environment)?.mcpClient : session.mcpClient;
+    if (!client) {
+      throw new NotConfiguredError(`Environment ${environment} is not connected`);
+    }
+
+    const started = Date.now();
+    const finish = (report: Omit<ToolCallReport, 'toolName' | 'args' | 'durationMs' | 'environment' | 'tools'>) => {
+      this.recordToolCall(sessionId, origin, {
+        toolName: name,
+        args,
+        environment,
+        tools: client.listTools(),
+        durationMs: Date.now() - started,
+        ...report
+      });
+    };
+    try {
+      this.quotas.consumeToolCall(sessionId);
+    } catch (e) {
+      finish({ outcome: 'rate_limited', error: (e as Error).message });
+      throw e;
+    }
+    try {
+      const result = await client.callTool(name, args, requestOptions);
+      // MCP reports tool failures in the result rather than as a protocol error
+      finish({ outcome: result?.isError ? 'error' : 'success', result });
+      return result;
+    } catch (e) {
+      finish({ outcome: options.signal?.aborted ? 'cancelled' : 'error', error: (e as Error).message });
+      throw e;
+    }
+  }
+
+  private recordToolCall(sessionId: string, origin: AuditOrigin, report: ToolCallReport) {
+    // Clients can send any tool name; keep made-up ones out of the metric labels
+    const known = report.tools.some(t => t.name === report.toolName);
+    this.metrics.recordToolCall(origin, known ? report.toolName : 'unknown', report);
+    const environmentId = this.environmentIdFor(sessionId, report.args, report.environment);
+    if (report.outcome === 'success') {
+      this.recordMutation(sessionId, origin, report, environmentId);
+      this.trackResource(sessionId, origin, report, environmentId);
+    }
+    this.audit.record({
+      sessionId,
+      user: this.sessions.get(sessionId)?.user?.subject,
+      environmentId,
+      environment: report.environment,
+      origin,
+      tool: report.toolName,
+      args: report.args,
+      outcome: report.outcome,
+      error: report.error,
+      durationMs: report.durationMs
+    });
+  }
+
+  // Read-only calls change nothing, so a replay doesn't need them
+  private recordMutation(sessionId: string, origin: AuditOrigin, report: ToolCallReport, environmentId?: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    const definition = report.tools.find(t => t.name === report.toolName);
+    if (this.toolPolicy.classify(definition ?? report.toolName).readOnly) return;
+
+    const call: RecordedCall = {
+      tool: report.toolName,
+      args: maskSecretKeys(report.args ?? {}),
+      ids: extractResourceIds(toolResultData(report.result)),
+      environmentId,
+      origin,
+      recordedAt: Date.now()
+    };
+    session.recording.push(call);
+    this.store.appendRecording(sessionId, call).catch(e => {
+      log.error('Failed to save recorded call', { sessionId, error: (e as Error).message });
+    });
+  }
+
+  getRecording(sessionId: string): RecordedCall[] {
+    return [...(this.sessions.get(sessionId)?.recording ?? [])];
+  }
+
+  clearRecording(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    session.recording = [];
+    this.store.clearRecording(sessionId).catch(e => {
+      log.error('Failed to clear recording', { sessionId, error: (e as Error).message });
+    });
+  }
+
+  // Creates add to the ledger; deletes of tracked resources, from teardown or not, remove from it
+  private trackResource(sessionId: string, origin: AuditOrigin, report: ToolCallReport, environmentId?: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    const created = resourceFromCreate(report.toolName, report.args, report.result, {
+      environmentId,
+      environment: report.environment,
+      origin,
+      tracked: session.ledger
+    });
+    const deleted = deletedResourceId(report.toolName, report.args, session.ledger);
+    if (created) {
+      session.ledger.push(created);
+    } else if (deleted) {
+      session.ledger = session.ledger.filter(r => r.id !== deleted);
+    } else {
+      return;
+    }
+    this.persistLedger(session);
+  }
+
+  private persistLedger(session: UserSession): void {
+    this.store.saveLedger(session.sessionId, session.ledger).catch(e => {
+      log.error('Failed to save resource ledger', { sessionId: session.sessionId, error: (e as Error).message });
+    });
+  }
+
+  getLedger(sessionId: string): TrackedResource[] {
+    return [...(this.sessions.get(sessionId)?.ledger ?? [])];
+  }
+
+  /**
+   * Delete everything in the ledger through the matching delete tools,
+   * newest first. Deleted resources leave the ledger as their delete calls
+   * succeed; with dryRun nothing is called.
+   */
+  async teardown(
+    sessionId: string,
+    options: { dryRun?: boolean; signal?: AbortSignal; onStep?: (step: TeardownStep) => void } = {}
+  ): Promise<TeardownReport> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.mcpClient) {
+      throw new NotConfiguredError();
+    }
+    log.info('Tearing down tracked resources', { sessionId, resources: session.ledger.length, dryRun: !!options.dryRun });
+    return runTeardown(
+      [...session.ledger],
+      session.mcpClient.listTools(),
+      (name, args, resource) => this.callTool(sessionId, name, args, 'teardown', {
+        signal: options.signal,
+        environment: resource.environment && session.environments.get(resource.environment)?.mcpClient
+          ? resource.environment
+          : undefined
+      }),
+      options
+    );
+  }
+
+  /** Tools that take an explicit environmentId act on that one, not the connection's configured one */
+  private environmentIdFor(sessionId: string, args: any, environment?: string): string | undefined {
+    if (args && typeof args.environmentId === 'string' && args.environmentId) {
+      return args.environmentId;
+    }
+    const session = this.sessions.get(sessionId);
+    const connection = environment ? session?.environments.get(environment) : undefined;
+    return connection?.config.environmentId ?? session?.pingoneConfig?.environmentId;
+  }
+
+  private createMcpClient(session: UserSession, environment: EnvironmentConnection): McpClient {
+    const sessionId = session.sessionId;
+    const { config } = environment;
+    const handlers = {
+      onPrompt: async (params: any) => {
+        return this.handlePromptForSession(sessionId, params);
+      },
+      onStatusChange: (status: McpConnectionStatus, detail?: McpStatusDetail) => {
+        this.handleMcpStatusChange(sessionId, environment.name, status, detail);
+      },
+      logContext: { sessionId, environment: environment.name },
+      onToolsChanged: (tools: McpToolDefinition[]) => {
+        const session = this.sessions.get(sessionId);
+        // Browsers show the active environment's tools; the others are picked up on switch
+        if (session?.activeEnvironment === environment.name) {
+          this.broadcast(session, { type: 'toolsChanged', tools, environment: environment.name });
+        }
+      }
+    };
+
+    if (this.mcpOptions.transport === 'http') {
+      log.info('Using Streamable HTTP MCP server', { sessionId, environment: environment.name, url: this.mcpOptions.url });
+      return new HttpMcpClient({ ...this.mcpOptions, ...handlers });
+    }
 
     // Create MCP client with user-provided PingOne configuration
     const mcpEnv = {
@@ -101,99 +799,170 @@ export class SessionManager {
       PINGONE_TOP_LEVEL_DOMAIN: config.topLevelDomain
     };
     
-    console.log(`[SESSION ${sessionId}] 📝 MCP Environment variables:`, Object.keys(mcpEnv));
+    log.debug('MCP environment variables', { sessionId, environment: environment.name, keys: Object.keys(mcpEnv) });
 
-    const mcpClient = new StdioMcpClient({
+    return new StdioMcpClient({
       ...this.mcpOptions,
-      workingDirectory: session.workDir,
+      workingDirectory: environment.workDir,
       env: mcpEnv,
-      onPrompt: async (params) => {
-        return this.handlePromptForSession(sessionId, params);
+      ...handlers
+    });
+  }
+
+  /**
+   * Start `pingone-mcp-server login` for an environment without waiting for
+   * it. The sign-in link is pushed to the session's browsers as `authRequired`
+   * and every state change as `authStatus`; a login already running for the
+   * environment is replaced.
+   */
+  private beginLogin(session: UserSession, environment: EnvironmentConnection): AuthStatus {
+    if (this.mcpOptions.transport === 'http') {
+      throw new InvalidRequestError('Login is only available for the stdio MCP transport');
+    }
+    const { sessionId } = session;
+    const { config } = environment;
+    this.cancelLogin(environment);
+
+    const now = Date.now();
+    const status: AuthStatus = { state: 'pending', startedAt: now, expiresAt: now + LOGIN_TIMEOUT_MS, updatedAt: now };
+    environment.auth = status;
+    this.announceAuthStatus(session, environment);
+
+    const login = startLogin({
+      command: this.mcpOptions.command,
+      cwd: environment.workDir,
+      env: {
+        ...process.env,
+        PINGONE_MCP_ENVIRONMENT_ID: config.environmentId,
+        PINGONE_AUTHORIZATION_CODE_CLIENT_ID: config.clientId,
+        PINGONE_REGION_CODE: config.region,
+        PINGONE_TOP_LEVEL_DOMAIN: config.topLevelDomain,
+        PINGONE_AUTHORIZATION_CODE_SCOPES: 'openid'
       },
-      onResourceRequest: async (params) => {
-        console.log(`[SESSION ${sessionId}] Resource request:`, params);
-        return { contents: [] };
+      timeoutMs: LOGIN_TIMEOUT_MS,
+      log: createLogger('login', { sessionId, environment: environment.name }),
+      onPrompt: prompt => {
+        if (environment.login !== login) return;
+        status.prompt = prompt;
+        status.updatedAt = Date.now();
+        this.broadcast(session, this.authRequiredEvent(environment.name, status, prompt));
       }
     });
+    environment.login = login;
 
-    console.log(`[SESSION ${sessionId}] 🔄 Calling MCP client.initialize()...`);
-    await mcpClient.initialize();
-    session.mcpClient = mcpClient;
-    console.log(`[SESSION ${sessionId}] ✅ MCP client initialized successfully with ${mcpClient.listTools().length} tools`);
-    
-    // Now trigger the login command to establish OAuth session
-    console.log(`[SESSION ${sessionId}] 🔐 Triggering login command...`);
-    await this.triggerLogin(sessionId, config);
+    login.result.then(outcome => {
+      // A newer login (or removing the environment) has taken over
+      if (environment.login !== login) return;
+      environment.login = undefined;
+      environment.auth = { ...status, ...outcome, prompt: undefined, updatedAt: Date.now() };
+      this.announceAuthStatus(session, environment);
+    });
+    return status;
   }
 
-  private async triggerLogin(sessionId: string, config: {
-    environmentId: string;
-    clientId: string;
-    region: string;
-    topLevelDomain: string;
-  }): Promise<void> {
+  // Detached first, so the cancelled login's outcome is not announced
+  private cancelLogin(environment: EnvironmentConnection): void {
+    const login = environment.login;
+    environment.login = undefined;
+    login?.cancel();
+  }
+
+  private authRequiredEvent(environment: string, status: AuthStatus, prompt: LoginPrompt): ServerEvent {
+    return { type: 'authRequired', environment, ...prompt, expiresAt: status.expiresAt };
+  }
+
+  private announceAuthStatus(session: UserSession, environment: EnvironmentConnection): void {
+    const auth = environment.auth;
+    if (!auth) return;
+    log.info('PingOne login state changed', {
+      sessionId: session.sessionId,
+      environment: environment.name,
+      state: auth.state,
+      error: auth.error
+    });
+    this.broadcast(session, { type: 'authStatus', environment: environment.name, state: auth.state, error: auth.error });
+  }
+
+  /** Run the PingOne login again, e.g. after it failed or expired; defaults to the active environment */
+  login(sessionId: string, name?: string): AuthStatus {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
+    const environmentName = name ?? session.activeEnvironment;
+    const environment = environmentName ? session.environments.get(environmentName) : undefined;
+    if (!environment) {
+      throw environmentName ? new NotFoundError(`Unknown environment: ${environmentName}`) : new NotConfiguredError();
+    }
+    if (!environment.mcpClient) {
+      throw new NotConfiguredError(`Environment ${environment.name} is not connected; configure it first`);
+    }
+    return this.beginLogin(session, environment);
+  }
 
-    return new Promise((resolve, reject) => {
-      console.log(`[SESSION ${sessionId}] 🚀 Spawning login process...`);
-      
-      const loginProcess = spawn(this.mcpOptions.command!, ['login'], {
-        cwd: session.workDir,
-        stdio: ['pipe', 'pipe', 'pipe'],
-        env: {
-          ...process.env,
-          PINGONE_MCP_ENVIRONMENT_ID: config.environmentId,
-          PINGONE_AUTHORIZATION_CODE_CLIENT_ID: config.clientId,
-          PINGONE_REGION_CODE: config.region,
-          PINGONE_TOP_LEVEL_DOMAIN: config.topLevelDomain,
-          PINGONE_AUTHORIZATION_CODE_SCOPES: 'openid'
-        }
-      });
+  /** Login state of each environment that logs in with the local binary */
+  getAuthStatus(sessionId: string): ({ environment: string } & AuthStatus)[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+    return Array.from(session.environments.values())
+      .filter(environment => environment.auth)
+      .map(environment => ({ environment: environment.name, ...environment.auth! }));
+  }
 
-      let stdout = '';
-      let stderr = '';
+  /** `authRequired` for every login still waiting, so a browser that connects late can show the link */
+  pendingAuthEvents(sessionId: string): ServerEvent[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+    const events: ServerEvent[] = [];
+    for (const environment of session.environments.values()) {
+      const auth = environment.auth;
+      if (auth?.state === 'pending' && auth.prompt) {
+        events.push(this.authRequiredEvent(environment.name, auth, auth.prompt));
+      }
+    }
+    return events;
+  }
 
-      loginProcess.stdout.on('data', (data) => {
-        const output = data.toString();
-        stdout += output;
-        console.log(`[SESSION ${sessionId}] [LOGIN] ${output.trim()}`);
-      });
+  /**
+   * Tell the session's browsers about MCP connection changes so they can show
+   * "reconnecting" rather than failing silently.
+   */
+  private handleMcpStatusChange(
+    sessionId: string,
+    environment: string,
+    status: McpConnectionStatus,
+    detail?: McpStatusDetail
+  ): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
 
-      loginProcess.stderr.on('data', (data) => {
-        const output = data.toString();
-        stderr += output;
-        console.log(`[SESSION ${sessionId}] [LOGIN STDERR] ${output.trim()}`);
-      });
+    log.info('MCP status changed', { sessionId, environment, status, ...detail });
+    const active = session.activeEnvironment === environment;
+    this.broadcast(session, {
+      type: 'mcpStatus',
+      environment,
+      active,
+      status,
+      attempt: detail?.attempt,
+      error: detail?.error,
+      tools: status === 'ready' && active ? session.mcpClient?.listTools() : undefined
+    });
+  }
 
-      loginProcess.on('close', (code) => {
-        if (code === 0) {
-          console.log(`[SESSION ${sessionId}] ✅ Login completed successfully`);
-          resolve();
-        } else {
-          console.log(`[SESSION ${sessionId}] ❌ Login failed with code ${code}`);
-          console.log(`[SESSION ${sessionId}] stdout:`, stdout);
-          console.log(`[SESSION ${sessionId}] stderr:`, stderr);
-          // Don't reject - OAuth might have completed in browser even if process exits non-zero
-          resolve();
+  private broadcast(session: UserSession, message: ServerEvent): number {
+    const payload = JSON.stringify(message);
+    let sentCount = 0;
+    for (const ws of session.wsConnections) {
+      try {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(payload);
+          sentCount++;
         }
-      });
-
-      loginProcess.on('error', (err) => {
-        console.error(`[SESSION ${sessionId}] ❌ Login process error:`, err);
-        reject(err);
-      });
-
-      // Timeout after 5 minutes
-      setTimeout(() => {
-        console.log(`[SESSION ${sessionId}] ⏰ Login timeout, killing process`);
-        loginProcess.kill();
-        // Still resolve - user might have completed OAuth
-        resolve();
-      }, 5 * 60 * 1000);
-    });
+      } catch (e) {
+        log.warn('Failed to send to client', { sessionId: session.sessionId, error: e });
+      }
+    }
+    return sentCount;
   }
 
   private async handlePromptForSession(sessionId: string, params: any): Promise<any> {
@@ -202,45 +971,44 @@ export class SessionManager {
       throw new Error(`Session ${sessionId} not found for prompt handling`);
     }
 
-    console.log(`[SESSION ${sessionId}] 🔔 PROMPT REQUEST:`, JSON.stringify(params, null, 2));
-
     return new Promise((resolve, reject) => {
       const promptId = `${sessionId}-${Date.now()}`;
+      log.debug('MCP prompt request', { sessionId, promptId, params });
       const timeout = setTimeout(() => {
-        console.log(`[SESSION ${sessionId}] ⏰ Prompt timeout: ${promptId}`);
+        log.warn('Prompt timed out', { sessionId, promptId });
+        this.metrics.promptTimedOut('mcp');
         session.promptResolvers.delete(promptId);
         reject(new Error('Prompt timeout - no client response'));
       }, 120000); // 2 minute timeout
 
-      session.promptResolvers.set(promptId, { resolve, reject, timeout });
+      session.promptResolvers.set(promptId, { resolve, reject, timeout, source: 'mcp', createdAt: Date.now() });
 
       // Broadcast to all WebSocket connections for this session
       const promptMsg = JSON.stringify({
         type: 'prompt',
         id: promptId,
         params
-      });
+      } satisfies ServerEvent);
 
       let sentCount = 0;
       for (const ws of session.wsConnections) {
         try {
           if (ws.readyState === WebSocket.OPEN) {
-            console.log(`[SESSION ${sessionId}] 📤 Sending prompt to WebSocket client`);
             ws.send(promptMsg);
             sentCount++;
           }
         } catch (e) {
-          console.error(`[SESSION ${sessionId}] Failed to send prompt to client:`, e);
+          log.warn('Failed to send prompt to client', { sessionId, promptId, error: e });
         }
       }
 
       if (sentCount === 0) {
         clearTimeout(timeout);
         session.promptResolvers.delete(promptId);
-        console.log(`[SESSION ${sessionId}] ❌ No connected clients to handle prompt`);
+        log.warn('No connected clients to handle prompt', { sessionId, promptId });
         reject(new Error('No connected clients to handle prompt'));
       } else {
-        console.log(`[SESSION ${sessionId}] ✅ Prompt sent to ${sentCount} client(s), waiting for response...`);
+        log.debug('Prompt sent, waiting for response', { sessionId, promptId, clients: sentCount });
       }
     });
   }
@@ -248,7 +1016,7 @@ export class SessionManager {
   handlePromptResponse(sessionId: string, promptId: string, response: any): void {
     const session = this.sessions.get(sessionId);
     if (!session) {
-      console.warn(`[SESSION] Prompt response for unknown session: ${sessionId}`);
+      log.warn('Prompt response for unknown session', { sessionId, promptId });
       return;
     }
 
@@ -256,20 +1024,25 @@ export class SessionManager {
     if (resolver) {
       clearTimeout(resolver.timeout);
       session.promptResolvers.delete(promptId);
-      console.log(`[SESSION ${sessionId}] ✅ Prompt resolved: ${promptId}`);
-      console.log(`[SESSION ${sessionId}] 📥 Response:`, JSON.stringify(response, null, 2));
+      // Responses can carry what the user typed into a login form; the logger masks secrets
+      log.debug('Prompt resolved', { sessionId, promptId, response });
       resolver.resolve(response);
     } else {
-      console.warn(`[SESSION ${sessionId}] ⚠️  Unknown prompt ID: ${promptId}`);
+      log.warn('Response for unknown prompt', { sessionId, promptId });
     }
   }
 
+  /** Throws RateLimitError if the session already has its maximum of sockets */
   addWebSocketConnection(sessionId: string, ws: WebSocket): void {
     const session = this.sessions.get(sessionId);
     if (session) {
+      const limit = this.quotas.limits.wsPerSession;
+      if (limit > 0 && session.wsConnections.size >= limit) {
+        throw new RateLimitError('wsPerSession', `Too many open connections for this session (limit ${limit})`);
+      }
       session.wsConnections.add(ws);
       session.lastActivity = Date.now();
-      console.log(`[SESSION ${sessionId}] WebSocket connected (total: ${session.wsConnections.size})`);
+      log.debug('WebSocket connected', { sessionId, connections: session.wsConnections.size });
     }
   }
 
@@ -278,7 +1051,7 @@ export class SessionManager {
     if (session) {
       session.wsConnections.delete(ws);
       session.lastActivity = Date.now();
-      console.log(`[SESSION ${sessionId}] WebSocket disconnected (remaining: ${session.wsConnections.size})`);
+      log.debug('WebSocket disconnected', { sessionId, connections: session.wsConnections.size });
       
       // Don't immediately cleanup - let idle timeout handle it
       // This allows users to refresh browser without losing session
@@ -292,15 +1065,22 @@ export class SessionManager {
       
       // Only cleanup if idle AND no active connections
       if (idleTime > this.IDLE_TIMEOUT && session.wsConnections.size === 0) {
-        console.log(`[SESSION ${sessionId}] Cleaning up idle session (idle: ${Math.round(idleTime / 60000)}min)`);
-        this.destroySession(sessionId);
+        log.info('Cleaning up idle session', { sessionId, idleMinutes: Math.round(idleTime / 60000) });
+        this.destroySession(sessionId, 'forget');
       }
     }
   }
 
-  private destroySession(sessionId: string): void {
+  /**
+   * Tear down the live session. 'forget' also drops it from the store;
+   * 'release' keeps the stored state and hands ownership back so another
+   * pod can pick the session up straight away.
+   */
+  private destroySession(sessionId: string, mode: 'forget' | 'release'): Promise<void> {
     const session = this.sessions.get(sessionId);
-    if (!session) return;
+    if (!session) return Promise.resolve();
+
+    session.activeChat?.abort();
 
     // Reject any pending prompts
     for (const [promptId, resolver] of session.promptResolvers.entries()) {
@@ -308,42 +1088,259 @@ export class SessionManager {
       resolver.reject(new Error('Session terminated'));
     }
     session.promptResolvers.clear();
+    this.quotas.forget(sessionId);
 
     // Close all WebSocket connections
     for (const ws of session.wsConnections) {
       try {
         ws.close(1000, 'Session terminated');
       } catch (e) {
-        console.error('Error closing WebSocket:', e);
+        log.warn('Error closing WebSocket', { sessionId, error: e });
       }
     }
     session.wsConnections.clear();
 
-    // Note: StdioMcpClient doesn't have a cleanup method yet
-    // The child process will be garbage collected when the reference is removed
+    // Stop the MCP server and login processes and reject their in-flight requests
+    const closing = Promise.all(Array.from(session.environments.values()).map(environment => {
+      this.cancelLogin(environment);
+      return environment.mcpClient?.close().catch(e => {
+        log.error('Error closing MCP client', { sessionId, environment: environment.name, error: e });
+      });
+    }));
+
+    const storeUpdate = (mode === 'forget'
+      ? this.store.deleteSession(sessionId)
+      : this.store.claimSession(sessionId, undefined, this.pod.id).then(() => undefined)
+    ).catch(e => {
+      log.error('Failed to update store', { sessionId, error: (e as Error).message });
+    });
     
     this.sessions.delete(sessionId);
-    console.log(`[SESSION ${sessionId}] Destroyed`);
+    log.info('Session destroyed', { sessionId, mode });
+    return Promise.all([closing, storeUpdate]).then(() => undefined);
   }
 
-  shutdown(): void {
-    console.log('[SESSION MANAGER] Shutting down all sessions');
+  /**
+   * Stop every live session on this pod. Stored state is kept so other pods
+   * can continue the conversations; the store itself is closed by its owner.
+   */
+  async shutdown(): Promise<void> {
+    log.info('Shutting down all sessions', { sessions: this.sessions.size });
     clearInterval(this.cleanupInterval);
+    clearInterval(this.heartbeatInterval);
     
-    for (const sessionId of this.sessions.keys()) {
-      this.destroySession(sessionId);
+    await Promise.all(Array.from(this.sessions.keys()).map(sessionId => this.destroySession(sessionId, 'release')));
+    await this.store.removePod(this.pod.id).catch(e => {
+      log.error('Failed to deregister pod', { podId: this.pod.id, error: (e as Error).message });
+    });
+    await this.audit.flush();
+  }
+
+  /** Live sessions on this pod, most recently active first */
+  listSessionSummaries(): AdminSessionSummary[] {
+    return Array.from(this.sessions.values())
+      .map(session => this.summarize(session))
+      .sort((a, b) => b.lastActivity - a.lastActivity);
+  }
+
+  getSessionSummary(sessionId: string): AdminSessionSummary | undefined {
+    const session = this.sessions.get(sessionId);
+    return session ? this.summarize(session) : undefined;
+  }
+
+  private summarize(session: UserSession): AdminSessionSummary {
+    return {
+      sessionId: session.sessionId,
+      createdAt: session.createdAt,
+      lastActivity: session.lastActivity,
+      clientIp: session.clientIp,
+      user: session.user,
+      webSockets: session.wsConnections.size,
+      chatRunning: Boolean(session.activeChat),
+      llmProviderId: session.llmProviderId,
+      conversations: session.conversations.size,
+      activeEnvironment: session.activeEnvironment,
+      environments: this.listEnvironments(session.sessionId).map(summary => {
+        const client = session.environments.get(summary.name)?.mcpClient;
+        return {
+          ...summary,
+          transport: client?.transport,
+          pid: client instanceof StdioMcpClient ? client.pid : undefined
+        };
+      }),
+      pendingPrompts: Array.from(session.promptResolvers.entries()).map(([id, { source, createdAt }]) => ({ id, source, createdAt }))
+    };
+  }
+
+  /**
+   * End a session on an operator's request. Its browsers get a notice first;
+   * stored state is dropped as for an idle session.
+   */
+  async terminateSession(sessionId: string, message = 'Your session was ended by an administrator'): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+    this.broadcast(session, { type: 'notice', level: 'warning', message });
+    log.warn('Session terminated by an administrator', { sessionId });
+    await this.destroySession(sessionId, 'forget');
+    return true;
+  }
+
+  private connectedClient(sessionId: string, name: string): McpClient {
+    const client = this.sessions.get(sessionId)?.environments.get(name)?.mcpClient;
+    if (!client) {
+      throw new NotConfiguredError(`Environment ${name} is not connected`);
+    }
+    return client;
+  }
+
+  /** Close a session for good, e.g. at logout; nothing is sent to its browsers */
+  endSession(sessionId: string): Promise<void> {
+    return this.destroySession(sessionId, 'forget');
+  }
+
+  /** Replace the environment's MCP connection with a fresh one, without a new login */
+  async restartMcpClient(sessionId: string, environment: string): Promise<void> {
+    log.warn('MCP client restart requested by an administrator', { sessionId, environment });
+    await this.connectedClient(sessionId, environment).restart();
+  }
+
+  /**
+   * Signal the environment's MCP server process. The client notices the exit
+   * and restarts it under its usual policy, so this is for unsticking a
+   * process (or testing recovery) rather than disconnecting.
+   */
+  killMcpProcess(sessionId: string, environment: string, signal: NodeJS.Signals = 'SIGKILL'): boolean {
+    const client = this.connectedClient(sessionId, environment);
+    if (!(client instanceof StdioMcpClient)) {
+      throw new InvalidRequestError('Only stdio MCP servers run as a local process');
     }
+    log.warn('MCP process kill requested by an administrator', { sessionId, environment, pid: client.pid, signal });
+    return client.kill(signal);
+  }
+
+  /** Show a notice in every browser connected to this pod; returns the sockets reached */
+  broadcastNotice(message: string, level: 'info' | 'warning' = 'info'): number {
+    let sent = 0;
+    for (const session of this.sessions.values()) {
+      sent += this.broadcast(session, { type: 'notice', level, message });
+    }
+    log.info('Broadcast notice', { level, sessions: this.sessions.size, webSockets: sent });
+    return sent;
   }
 
   // For REST API access
-  getSessionMcpClient(sessionId: string): StdioMcpClient | undefined {
+  getSessionMcpClient(sessionId: string): McpClient | undefined {
     return this.sessions.get(sessionId)?.mcpClient;
   }
 
+  /**
+   * Look up a conversation by ID, falling back to the session's active
+   * conversation, or start a new one if neither exists.
+   */
+  getOrCreateConversation(sessionId: string, conversationId?: string): Conversation {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const id = conversationId || session.activeConversationId;
+    let conversation = id ? session.conversations.get(id) : undefined;
+    if (conversationId && !conversation) {
+      throw new NotFoundError(`Conversation ${conversationId} not found`);
+    }
+
+    if (!conversation) {
+      conversation = this.startConversation(sessionId);
+    } else if (session.activeConversationId !== conversation.id) {
+      session.activeConversationId = conversation.id;
+      this.persist(session);
+    }
+    return conversation;
+  }
+
+  startConversation(sessionId: string): Conversation {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const now = Date.now();
+    const conversation: Conversation = {
+      id: uuid(),
+      messages: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    session.conversations.set(conversation.id, conversation);
+    session.activeConversationId = conversation.id;
+    this.persist(session);
+    this.persistConversation(session, conversation);
+    log.debug('Started conversation', { sessionId, conversationId: conversation.id });
+    return conversation;
+  }
+
+  getActiveConversation(sessionId: string): Conversation | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session?.activeConversationId) return undefined;
+    return session.conversations.get(session.activeConversationId);
+  }
+
+  appendConversationMessages(sessionId: string, conversationId: string, messages: ChatMessage[]): void {
+    const session = this.sessions.get(sessionId);
+    const conversation = session?.conversations.get(conversationId);
+    if (!session || !conversation) {
+      throw new NotFoundError(`Conversation ${conversationId} not found`);
+    }
+    conversation.messages.push(...messages);
+    conversation.updatedAt = Date.now();
+    this.persistConversation(session, conversation);
+  }
+
+  /**
+   * Register a running chat turn. Only one turn may run per session at a time.
+   */
+  beginChat(sessionId: string): AbortController {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (session.activeChat) {
+      throw new ChatBusyError(sessionId);
+    }
+    session.activeChat = new AbortController();
+    return session.activeChat;
+  }
+
+  endChat(sessionId: string, controller: AbortController): void {
+    const session = this.sessions.get(sessionId);
+    if (session?.activeChat === controller) {
+      session.activeChat = undefined;
+    }
+  }
+
+  cancelChat(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session?.activeChat) return false;
+    log.info('Cancelling active chat', { sessionId });
+    session.activeChat.abort();
+    return true;
+  }
+
+  setLlmProvider(sessionId: string, providerId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    session.llmProviderId = providerId;
+    this.persist(session);
+    log.info('LLM provider set', { sessionId, providerId });
+  }
+
   touchSession(sessionId: string): void {
     const session = this.sessions.get(sessionId);
     if (session) {
       session.lastActivity = Date.now();
+      this.persist(session);
     }
   }
 }
@@ -1,46 +1,30 @@
 import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
 import fs from 'fs';
-import { v4 as uuid } from 'uuid';
-import { ZodSchema, z } from 'zod';
+import { BaseMcpClient, JsonRpcMessage, McpClientHandlers } from './mcpClient.js';
+import { createLogger, Logger } from '../util/logger.js';
 
-// Basic JSON-RPC 2.0 types
-interface JsonRpcRequest {
-  jsonrpc: '2.0';
-  id: string;
-  method: string;
-  params?: any;
-}
-interface JsonRpcResponse {
-  jsonrpc: '2.0';
-  id: string;
-  result?: any;
-  error?: { code: number; message: string; data?: any };
-}
+export type { McpToolDefinition } from './mcpClient.js';
 
-export interface McpToolDefinition {
-  name: string;
-  description?: string;
-  inputSchema?: any;
-}
-
-export interface McpClientOptions {
+export interface McpClientOptions extends McpClientHandlers {
   command: string;
   args?: string[];
   env?: Record<string, string | undefined>;
   workingDirectory?: string;
-  initCapabilities?: Record<string, any>;
-  onPrompt?: (params: any) => Promise<any>;
-  onResourceRequest?: (params: any) => Promise<any>;
 }
 
-export class StdioMcpClient {
+export class StdioMcpClient extends BaseMcpClient {
+  readonly transport = 'stdio' as const;
   private child?: ChildProcessWithoutNullStreams;
-  private pending = new Map<string, (res: JsonRpcResponse) => void>();
   private buffer = '';
-  private tools: McpToolDefinition[] = [];
-  private initialized = false;
+  // Set while we are deliberately stopping the child so its exit isn't treated as a crash
+  private stopping = false;
+  // The server's own stderr, separately tunable with LOG_LEVELS=mcp.stdio=...
+  private readonly serverLog: Logger;
 
-  constructor(private readonly opts: McpClientOptions) {}
+  constructor(private readonly opts: McpClientOptions) {
+    super(opts);
+    this.serverLog = createLogger('mcp.stdio', opts.logContext);
+  }
 
   start() {
     if (this.child) return;
@@ -60,7 +44,12 @@ export class StdioMcpClient {
     this.child = child;
 
     child.on('error', err => {
-      console.error('[MCP SPAWN ERROR]', err.message);
+      this.log.error('Failed to spawn MCP server', { command: this.opts.command, error: err.message });
+      // A process that never spawned emits no 'exit'
+      if (this.child === child && child.pid === undefined) {
+        this.child = undefined;
+        this.handleDisconnect(`spawn failed: ${err.message}`);
+      }
     });
 
     child.stdout.on('data', (chunk: Buffer) => {
@@ -68,44 +57,74 @@ export class StdioMcpClient {
       this.processBuffer();
     });
     child.stderr.on('data', (chunk: Buffer) => {
-      console.error('[MCP STDERR]', chunk.toString('utf8'));
+      this.serverLog.info('MCP server stderr', { output: chunk.toString('utf8').trimEnd() });
     });
-    child.on('exit', code => {
-      console.warn(`[MCP SERVER EXIT] code=${code}`);
+    child.on('exit', (code, signal) => {
+      const exitLog = this.stopping ? this.log.info : this.log.warn;
+      exitLog('MCP server exited', { code, signal: signal ?? undefined, pid: child.pid });
+      if (this.child !== child) return;
       this.child = undefined;
+      this.buffer = '';
+      if (!this.stopping) {
+        this.handleDisconnect(`process exited with code ${code}${signal ? ` (${signal})` : ''}`);
+      }
     });
   }
 
-  private async handleServerRequest(req: JsonRpcRequest) {
+  /**
+   * Ask the child to exit with SIGTERM, escalating to SIGKILL if it is still
+   * running after a grace period.
+   */
+  protected async disconnect() {
+    const child = this.child;
+    if (!child) return;
+    this.stopping = true;
     try {
-      let result: any;
-      
-      if (req.method === 'prompts/get' && this.opts.onPrompt) {
-        result = await this.opts.onPrompt(req.params);
-      } else if (req.method === 'resources/read' && this.opts.onResourceRequest) {
-        result = await this.opts.onResourceRequest(req.params);
-      } else {
-        // Method not supported
-        this.sendResponse(req.id, undefined, {
-          code: -32601,
-          message: `Method not found: ${req.method}`
+      await new Promise<void>(resolve => {
+        if (child.exitCode !== null || child.signalCode !== null) return resolve();
+        const killTimer = setTimeout(() => child.kill('SIGKILL'), 5000);
+        child.once('exit', () => {
+          clearTimeout(killTimer);
+          resolve();
         });
-        return;
-      }
-      
-      this.sendResponse(req.id, result);
-    } catch (error) {
-      this.sendResponse(req.id, undefined, {
-        code: -32603,
-        message: (error as Error).message
+        child.kill('SIGTERM');
       });
+    } finally {
+      this.stopping = false;
+      if (this.child === child) this.child = undefined;
     }
   }
 
-  private sendResponse(id: string, result?: any, error?: { code: number; message: string }) {
-    if (!this.child) return;
-    const res: JsonRpcResponse = { jsonrpc: '2.0', id, result, error };
-    this.child.stdin.write(JSON.stringify(res) + '\n');
+  protected async connect() {
+    this.start();
+  }
+
+  protected isConnected() {
+    return !!this.child;
+  }
+
+  /** Whether a child process is currently alive; false between a crash and its restart */
+  get running(): boolean {
+    return !!this.child;
+  }
+
+  get pid(): number | undefined {
+    return this.child?.pid;
+  }
+
+  /**
+   * Signal the child without stopping the client. Its exit is handled like a
+   * crash, so the usual restart policy brings it back. False if none is running.
+   */
+  kill(signal: NodeJS.Signals = 'SIGKILL'): boolean {
+    if (!this.child) return false;
+    this.log.warn('Killing MCP server', { pid: this.child.pid, signal });
+    return this.child.kill(signal);
+  }
+
+  protected async send(message: JsonRpcMessage) {
+    if (!this.child) throw new Error('MCP process not started');
+    this.child.stdin.write(JSON.stringify(message) + '\n');
   }
 
   private processBuffer() {
@@ -115,87 +134,15 @@ export class StdioMcpClient {
     this.buffer = parts.pop() || '';
     for (const raw of parts) {
       if (!raw.trim()) continue;
-      let msg: JsonRpcResponse | JsonRpcRequest;
+      let msg: JsonRpcMessage;
       try {
         msg = JSON.parse(raw);
       } catch (e) {
-        console.error('Failed to parse MCP chunk:', raw);
+        // Only a prefix: a stray line can be arbitrarily long
+        this.serverLog.warn('Unparseable MCP stdout line', { line: raw.slice(0, 500) });
         continue;
       }
-      if ('id' in msg && ('result' in msg || 'error' in msg)) {
-        const handler = this.pending.get(msg.id);
-        if (handler) {
-          this.pending.delete(msg.id);
-          handler(msg as JsonRpcResponse);
-        }
-      } else if ('method' in msg && !('result' in msg || 'error' in msg)) {
-        const request = msg as JsonRpcRequest;
-        // Handle server-originated requests that need a response
-        if ('id' in request) {
-          this.handleServerRequest(request);
-        } else {
-          // Handle server-originated notifications
-          if (request.method === 'tools/list') {
-            this.tools = request.params?.tools ?? [];
-          }
-        }
-      }
+      this.handleMessage(msg);
     }
   }
-
-  private sendRequest<T = any>(method: string, params?: any, schema?: ZodSchema<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      if (!this.child) return reject(new Error('MCP process not started'));
-      const id = uuid();
-      const req: JsonRpcRequest = { jsonrpc: '2.0', id, method, params };
-      this.pending.set(id, (res: JsonRpcResponse) => {
-        if (res.error) {
-          return reject(new Error(`${res.error.code}: ${res.error.message}`));
-        }
-        if (schema) {
-          try {
-            resolve(schema.parse(res.result));
-          } catch (e) {
-            reject(e);
-          }
-        } else {
-          resolve(res.result);
-        }
-      });
-      this.child.stdin.write(JSON.stringify(req) + '\n');
-    });
-  }
-
-  async initialize() {
-    if (this.initialized) return;
-    this.start();
-    // Minimal handshake; adjust to server expectations
-    const capabilities = {
-      ...(this.opts.initCapabilities ?? {}),
-      prompts: this.opts.onPrompt ? {} : undefined,
-      resources: this.opts.onResourceRequest ? { subscribe: false } : undefined
-    };
-    await this.sendRequest('initialize', {
-      clientInfo: { name: 'mcp-admin-agent', version: '0.1.0' },
-      capabilities
-    }).catch(err => {
-      console.warn('Initialize failed:', err.message);
-    });
-    // Fetch tools explicitly if server supports method
-    try {
-      const result = await this.sendRequest('tools/list');
-      this.tools = result?.tools ?? [];
-    } catch (e) {
-      console.warn('Tool listing failed:', (e as Error).message);
-    }
-    this.initialized = true;
-  }
-
-  listTools() {
-    return this.tools;
-  }
-
-  async callTool(name: string, args: any) {
-    return this.sendRequest('tools/call', { name, arguments: args });
-  }
 }
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { McpToolDefinition } from './mcpClient.js';
+
+/**
+ * How a tool behaves, as far as the agent is concerned. Drives the approval
+ * gate and how much the assistant says after the tool ran.
+ */
+export interface ToolClassification {
+  readOnly: boolean;
+  destructive: boolean;
+  idempotent: boolean;
+  requiresApproval: boolean;
+  /** Where the classification came from, most specific wins */
+  source: 'override' | 'annotations' | 'name';
+}
+
+const overrideSchema = z.object({
+  readOnly: z.boolean().optional(),
+  destructive: z.boolean().optional(),
+  idempotent: z.boolean().optional(),
+  requiresApproval: z.boolean().optional()
+}).strict();
+
+const policyFileSchema = z.object({
+  /** Keys are tool names or patterns with `*` wildcards */
+  tools: z.record(overrideSchema).default({})
+});
+
+export type ToolPolicyOverride = z.infer<typeof overrideSchema>;
+export type ToolPolicyFile = z.infer<typeof policyFileSchema>;
+
+/**
+ * Tool name prefixes that only read PingOne configuration. Only used for
+ * tools the server sends without annotations; any other name is treated as
+ * mutating, so an unfamiliar tool needs approval rather than slipping past it.
+ */
+const READ_ONLY_TOOL_PREFIXES = ['list-', 'get-', 'search-'];
+
+const DESTRUCTIVE_TOOL_PREFIXES = ['delete-', 'remove-', 'revoke-', 'reset-'];
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+/**
+ * Classifies MCP tools from their annotations (`readOnlyHint`,
+ * `destructiveHint`, `idempotentHint`), with a deployment override file on
+ * top. Tools without annotations fall back to the name prefixes above.
+ */
+export class ToolPolicy {
+  private readonly exact = new Map<string, ToolPolicyOverride>();
+  private readonly patterns: Array<{ pattern: RegExp; override: ToolPolicyOverride }> = [];
+
+  constructor(file: ToolPolicyFile = { tools: {} }, private readonly approvalEnabled = true) {
+    for (const [name, override] of Object.entries(file.tools)) {
+      if (name.includes('*')) {
+        this.patterns.push({ pattern: patternToRegExp(name), override });
+      } else {
+        this.exact.set(name, override);
+      }
+    }
+  }
+
+  /** Load TOOL_POLICY_FILE (JSON); TOOL_APPROVAL=off disables the approval gate */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ToolPolicy {
+    const approvalEnabled = env.TOOL_APPROVAL !== 'off';
+    const path = env.TOOL_POLICY_FILE;
+    if (!path) return new ToolPolicy(undefined, approvalEnabled);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(path, 'utf8'));
+    } catch (e) {
+      throw new Error(`Failed to read TOOL_POLICY_FILE ${path}: ${(e as Error).message}`);
+    }
+    const parsed = policyFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid TOOL_POLICY_FILE ${path}: ${issue?.path.join('.')} ${issue?.message}`);
+    }
+    return new ToolPolicy(parsed.data, approvalEnabled);
+  }
+
+  /**
+   * Classify a tool. Accepts a bare name for calls to tools the client no
+   * longer lists; those get the name-based fallback.
+   */
+  classify(tool: McpToolDefinition | string): ToolClassification {
+    const definition = typeof tool === 'string' ? { name: tool } : tool;
+    const base = this.fromAnnotations(definition) ?? this.fromName(definition.name);
+
+    // Patterns apply in file order, then an exact entry wins over all of them
+    const overrides = [
+      ...this.patterns.filter(p => p.pattern.test(definition.name)).map(p => p.override),
+      ...(this.exact.has(definition.name) ? [this.exact.get(definition.name)!] : [])
+    ];
+    if (overrides.length === 0) {
+      return base;
+    }
+
+    const merged = Object.assign({}, ...overrides) as ToolPolicyOverride;
+    const readOnly = merged.readOnly ?? base.readOnly;
+    const destructive = readOnly ? false : merged.destructive ?? base.destructive;
+    return {
+      readOnly,
+      destructive,
+      idempotent: merged.idempotent ?? base.idempotent,
+      requiresApproval: this.approvalEnabled && (merged.requiresApproval ?? !readOnly),
+      source: 'override'
+    };
+  }
+
+  /**
+   * Spec defaults for missing hints: not read-only, destructive, not
+   * idempotent. destructiveHint and idempotentHint only mean something for
+   * tools that are not read-only.
+   */
+  private fromAnnotations(tool: McpToolDefinition): ToolClassification | undefined {
+    const annotations = tool.annotations;
+    if (!annotations || (
+      annotations.readOnlyHint === undefined &&
+      annotations.destructiveHint === undefined &&
+      annotations.idempotentHint === undefined
+    )) {
+      return undefined;
+    }
+
+    const readOnly = annotations.readOnlyHint ?? false;
+    return {
+      readOnly,
+      destructive: !readOnly && (annotations.destructiveHint ?? true),
+      idempotent: readOnly || (annotations.idempotentHint ?? false),
+      requiresApproval: this.approvalEnabled && !readOnly,
+      source: 'annotations'
+    };
+  }
+
+  private fromName(name: string): ToolClassification {
+    const readOnly = READ_ONLY_TOOL_PREFIXES.some(prefix => name.startsWith(prefix));
+    return {
+      readOnly,
+      destructive: DESTRUCTIVE_TOOL_PREFIXES.some(prefix => name.startsWith(prefix)),
+      idempotent: readOnly,
+      requiresApproval: this.approvalEnabled && !readOnly,
+      source: 'name'
+    };
+  }
+}
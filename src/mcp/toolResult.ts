@@ -0,0 +1,45 @@
+/**
+ * The data inside an MCP tool result: `structuredContent` when the server
+ * sends it, otherwise the first text block parsed as JSON, or the raw text if
+ * it is not JSON. PingOne tools return their API response as JSON text.
+ */
+export function toolResultData(result: any): unknown {
+  if (result?.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+  const text = result?.content?.find?.((c: any) => c?.type === 'text')?.text;
+  if (typeof text !== 'string') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Human-readable error text of a result with `isError` set */
+export function toolResultError(result: any): string | undefined {
+  if (!result?.isError) return undefined;
+  const text = result.content?.find?.((c: any) => c?.type === 'text')?.text;
+  return typeof text === 'string' && text ? text : 'Tool reported an error';
+}
+
+/**
+ * Locate the list inside a tool payload: the payload itself, a top-level
+ * array property, or one nested a level down (PingOne's `_embedded.users`).
+ */
+export function findListPath(data: any): string[] | undefined {
+  if (Array.isArray(data)) return [];
+  if (!data || typeof data !== 'object') return undefined;
+  for (const key of Object.keys(data)) {
+    if (Array.isArray(data[key])) return [key];
+  }
+  for (const key of Object.keys(data)) {
+    const child = data[key];
+    if (!child || typeof child !== 'object') continue;
+    const nested = Object.keys(child).find(k => Array.isArray(child[k]));
+    if (nested) return [key, nested];
+  }
+  return undefined;
+}
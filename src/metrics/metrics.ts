@@ -0,0 +1,131 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { AuditOrigin } from '../audit/auditLog.js';
+import type { ToolCallReport } from '../ai/chatService.js';
+import type { LlmUsage } from '../ai/llmProvider.js';
+
+/** Live counts read at scrape time */
+export interface SessionCounts {
+  sessions: number;
+  webSockets: number;
+  mcpProcesses: number;
+}
+
+/** Who was waiting on a prompt: the MCP server (e.g. login) or a chat tool approval */
+export type PromptSource = 'mcp' | 'chat';
+
+const PREFIX = 'mcp_agent_';
+
+/**
+ * Prometheus metrics for one pod, served as text from `GET /metrics`. Each
+ * instance has its own registry so tests and several SessionManagers don't
+ * collide in prom-client's global one.
+ */
+export class Metrics {
+  readonly registry = new Registry();
+  private counts: () => SessionCounts = () => ({ sessions: 0, webSockets: 0, mcpProcesses: 0 });
+
+  private readonly toolCalls: Counter<'tool' | 'outcome' | 'origin'>;
+  private readonly toolCallDuration: Histogram<'tool' | 'outcome'>;
+  private readonly chatTurns: Counter;
+  private readonly chatIterations: Counter;
+  private readonly promptTimeouts: Counter<'source'>;
+  private readonly llmTokens: Counter<'provider' | 'model' | 'direction'>;
+
+  constructor(options: { processMetrics?: boolean } = {}) {
+    const registers = [this.registry];
+    const counts = () => this.counts();
+    if (options.processMetrics ?? true) {
+      collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+    }
+
+    new Gauge({
+      name: `${PREFIX}sessions`,
+      help: 'Sessions held by this pod',
+      registers,
+      collect() { this.set(counts().sessions); }
+    });
+    new Gauge({
+      name: `${PREFIX}websocket_connections`,
+      help: 'Open browser WebSocket connections',
+      registers,
+      collect() { this.set(counts().webSockets); }
+    });
+    new Gauge({
+      name: `${PREFIX}mcp_processes`,
+      help: 'Running MCP server child processes (stdio transport)',
+      registers,
+      collect() { this.set(counts().mcpProcesses); }
+    });
+
+    this.toolCalls = new Counter({
+      name: `${PREFIX}tool_calls_total`,
+      help: 'MCP tool calls by tool, outcome and origin',
+      labelNames: ['tool', 'outcome', 'origin'],
+      registers
+    });
+    this.toolCallDuration = new Histogram({
+      name: `${PREFIX}tool_call_duration_seconds`,
+      help: 'MCP tool call latency',
+      labelNames: ['tool', 'outcome'],
+      buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+      registers
+    });
+    this.chatTurns = new Counter({
+      name: `${PREFIX}chat_turns_total`,
+      help: 'User messages handled by the chat loop (WebSocket, REST and /v1)',
+      registers
+    });
+    this.chatIterations = new Counter({
+      name: `${PREFIX}chat_iterations_total`,
+      help: 'Model requests made by the chat loop; one per round of tool calls plus the final answer',
+      registers
+    });
+    this.promptTimeouts = new Counter({
+      name: `${PREFIX}prompt_timeouts_total`,
+      help: 'Prompts sent to the browser that got no answer in time',
+      labelNames: ['source'],
+      registers
+    });
+    this.llmTokens = new Counter({
+      name: `${PREFIX}llm_tokens_total`,
+      help: 'LLM tokens as reported by the provider',
+      labelNames: ['provider', 'model', 'direction'],
+      registers
+    });
+  }
+
+  /** Where the session, WebSocket and process gauges read from */
+  observeSessions(counts: () => SessionCounts): void {
+    this.counts = counts;
+  }
+
+  recordToolCall(origin: AuditOrigin, tool: string, report: ToolCallReport): void {
+    this.toolCalls.inc({ tool, outcome: report.outcome, origin });
+    this.toolCallDuration.observe({ tool, outcome: report.outcome }, report.durationMs / 1000);
+  }
+
+  chatTurnStarted(): void {
+    this.chatTurns.inc();
+  }
+
+  modelRequested(): void {
+    this.chatIterations.inc();
+  }
+
+  recordUsage(usage: LlmUsage, provider: string, model: string): void {
+    this.llmTokens.inc({ provider, model, direction: 'input' }, usage.inputTokens);
+    this.llmTokens.inc({ provider, model, direction: 'output' }, usage.outputTokens);
+  }
+
+  promptTimedOut(source: PromptSource): void {
+    this.promptTimeouts.inc({ source });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import YAML from 'yaml';
+import { InvalidRequestError } from '../util/errors.js';
+
+const variableSchema = z.union([
+  z.object({
+    description: z.string().optional(),
+    default: z.unknown().optional(),
+    required: z.boolean().optional()
+  }).strict(),
+  // Shorthand: `appName: Demo App` declares a variable with that default
+  z.union([z.string(), z.number(), z.boolean()]).transform(value => ({ default: value as unknown }))
+]);
+
+const stepSchema = z.object({
+  /** Name other steps use to refer to this step's output */
+  id: z.string().regex(/^[A-Za-z_][\w-]*$/, 'must start with a letter and contain only letters, digits, _ and -'),
+  description: z.string().optional(),
+  tool: z.string().min(1),
+  args: z.record(z.unknown()).default({}),
+  /** Condition expression; the step is skipped when it is false */
+  when: z.string().optional(),
+  /** `stop` (default) ends the run on failure, `continue` moves on */
+  onError: z.enum(['stop', 'continue']).default('stop')
+}).strict();
+
+const playbookSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  variables: z.record(variableSchema).default({}),
+  steps: z.array(stepSchema).min(1)
+}).strict().superRefine((playbook, ctx) => {
+  const seen = new Set<string>();
+  playbook.steps.forEach((step, index) => {
+    if (seen.has(step.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'id'], message: `duplicate step id "${step.id}"` });
+    }
+    seen.add(step.id);
+  });
+});
+
+export type Playbook = z.infer<typeof playbookSchema>;
+export type PlaybookStep = Playbook['steps'][number];
+export type PlaybookVariable = Playbook['variables'][string];
+
+/** Validate an already-parsed playbook; throws "Invalid playbook: ..." */
+export function validatePlaybook(raw: unknown): Playbook {
+  const parsed = playbookSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new InvalidRequestError(`Invalid playbook: ${issue ? `${issue.path.join('.') || 'playbook'} ${issue.message}` : 'malformed'}`);
+  }
+  return parsed.data;
+}
+
+/** Parse YAML or JSON text (JSON is valid YAML) */
+export function parsePlaybook(source: string): Playbook {
+  let raw: unknown;
+  try {
+    raw = YAML.parse(source);
+  } catch (e) {
+    throw new InvalidRequestError(`Invalid playbook: ${(e as Error).message}`);
+  }
+  return validatePlaybook(raw);
+}
+
+/** What templates and conditions can refer to */
+export interface PlaybookScope {
+  vars: Record<string, unknown>;
+  steps: Record<string, { status: string; output?: unknown; error?: string }>;
+  session: { environmentId?: string };
+}
+
+/**
+ * Fill in declared defaults and check required variables. Unknown names are
+ * rejected so a typo doesn't silently fall back to a default.
+ */
+export function resolveVariables(playbook: Playbook, raw: unknown = {}): Record<string, unknown> {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new InvalidRequestError('Playbook variables must be an object');
+  }
+  const supplied = raw as Record<string, unknown>;
+  for (const name of Object.keys(supplied)) {
+    if (!(name in playbook.variables)) {
+      throw new InvalidRequestError(`Unknown playbook variable: ${name}`);
+    }
+  }
+  const vars: Record<string, unknown> = {};
+  for (const [name, declaration] of Object.entries(playbook.variables)) {
+    const value = supplied[name] ?? declaration.default;
+    if (value === undefined && 'required' in declaration && declaration.required) {
+      throw new InvalidRequestError(`Missing required playbook variable: ${name}`);
+    }
+    vars[name] = value;
+  }
+  return vars;
+}
+
+const TEMPLATE = /\{\{\s*([^}]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE = /^\{\{\s*([^}]+?)\s*\}\}$/;
+
+/** Look up `steps.app.output.id` or `steps.users.output._embedded.users[0].id` */
+export function lookup(scope: PlaybookScope, path: string): unknown {
+  const keys = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  if (!['vars', 'steps', 'session'].includes(keys[0] ?? '')) {
+    throw new Error(`Unknown reference "${path}"; use vars., steps. or session.`);
+  }
+  let node: any = scope;
+  for (const key of keys) {
+    if (node === null || node === undefined) return undefined;
+    node = node[key];
+  }
+  return node;
+}
+
+/**
+ * Substitute `{{ ref }}` templates throughout step arguments. A string that
+ * is a single template keeps the referenced value's type (number, object,
+ * ...); templates inside longer strings are stringified.
+ */
+export function renderTemplate(value: unknown, scope: PlaybookScope): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_TEMPLATE);
+    if (whole) {
+      return lookup(scope, whole[1]);
+    }
+    return value.replace(TEMPLATE, (_match, path: string) => {
+      const found = lookup(scope, path);
+      if (found === undefined || found === null) return '';
+      return typeof found === 'object' ? JSON.stringify(found) : String(found);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplate(item, scope));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderTemplate(item, scope)]));
+  }
+  return value;
+}
+
+const CONDITION = /^(!)?\s*([\w.[\]-]+)\s*(?:(==|!=)\s*(.+))?$/;
+
+function parseLiteral(text: string): unknown {
+  const trimmed = text.trim();
+  if (/^'.*'$/.test(trimmed)) return trimmed.slice(1, -1);
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new Error(`Cannot compare against ${trimmed}; quote strings`);
+  }
+}
+
+/**
+ * Evaluate a step's `when`: a reference (`vars.createGroup`), its negation
+ * (`!steps.app.output.id`) or a comparison with a literal
+ * (`vars.region == 'EU'`, `steps.app.status != "succeeded"`).
+ */
+export function evaluateCondition(expression: string, scope: PlaybookScope): boolean {
+  const match = expression.trim().replace(WHOLE_TEMPLATE, '$1').match(CONDITION);
+  if (!match) {
+    throw new Error(`Invalid condition "${expression}"`);
+  }
+  const [, negate, path, operator, literal] = match;
+  if (negate && operator) {
+    throw new Error(`Invalid condition "${expression}"; use != instead of ! with a comparison`);
+  }
+  const value = lookup(scope, path);
+  if (operator) {
+    const equal = JSON.stringify(value) === JSON.stringify(parseLiteral(literal));
+    return operator === '==' ? equal : !equal;
+  }
+  const truthy = Boolean(value) && !(Array.isArray(value) && value.length === 0);
+  return negate ? !truthy : truthy;
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { Playbook, parsePlaybook, validatePlaybook } from './playbook.js';
+import { InvalidRequestError, NotFoundError } from '../util/errors.js';
+
+const EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+export interface PlaybookSummary {
+  /** File name without extension; used in URLs and runPlaybook messages */
+  id: string;
+  name: string;
+  description?: string;
+  variables: Playbook['variables'];
+  stepCount: number;
+}
+
+/**
+ * Playbooks shipped with the deployment, one file per playbook in
+ * PLAYBOOKS_DIR. Files are read on every request so edits show up without a
+ * restart; a broken file is reported instead of hiding the others.
+ */
+export class PlaybookLibrary {
+  constructor(readonly dir: string | undefined) {}
+
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): PlaybookLibrary {
+    return new PlaybookLibrary(env.PLAYBOOKS_DIR || undefined);
+  }
+
+  private files(): string[] {
+    if (!this.dir || !fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(file => EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .sort();
+  }
+
+  async list(): Promise<{ playbooks: PlaybookSummary[]; errors: Array<{ id: string; error: string }> }> {
+    const playbooks: PlaybookSummary[] = [];
+    const errors: Array<{ id: string; error: string }> = [];
+    for (const file of this.files()) {
+      const id = path.basename(file, path.extname(file));
+      try {
+        const playbook = parsePlaybook(await fs.promises.readFile(path.join(this.dir!, file), 'utf8'));
+        playbooks.push({
+          id,
+          name: playbook.name,
+          description: playbook.description,
+          variables: playbook.variables,
+          stepCount: playbook.steps.length
+        });
+      } catch (e) {
+        errors.push({ id, error: (e as Error).message });
+      }
+    }
+    return { playbooks, errors };
+  }
+
+  /** Load one playbook; undefined if there is no such file */
+  async get(id: string): Promise<Playbook | undefined> {
+    const file = this.files().find(f => path.basename(f, path.extname(f)) === id);
+    if (!file) return undefined;
+    return parsePlaybook(await fs.promises.readFile(path.join(this.dir!, file), 'utf8'));
+  }
+
+  /**
+   * The playbook a run request names: a library ID, or an inline definition
+   * (an object, or YAML/JSON text).
+   */
+  async resolve(request: { id?: unknown; playbook?: unknown }): Promise<Playbook> {
+    if (request.playbook !== undefined) {
+      return typeof request.playbook === 'string' ? parsePlaybook(request.playbook) : validatePlaybook(request.playbook);
+    }
+    if (typeof request.id !== 'string' || !request.id) {
+      throw new InvalidRequestError('Provide a playbook "id" from the library or an inline "playbook"');
+    }
+    const playbook = await this.get(request.id);
+    if (!playbook) {
+      throw new NotFoundError(`Unknown playbook: ${request.id}`);
+    }
+    return playbook;
+  }
+}
@@ -0,0 +1,117 @@
+import { v4 as uuid } from 'uuid';
+import { toolResultData, toolResultError } from '../mcp/toolResult.js';
+import { Playbook, PlaybookScope, evaluateCondition, renderTemplate, resolveVariables } from './playbook.js';
+
+export type PlaybookStepStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+export type PlaybookRunStatus = 'completed' | 'failed' | 'cancelled';
+
+export interface PlaybookStepReport {
+  id: string;
+  index: number;
+  tool: string;
+  status: PlaybookStepStatus;
+  /** Arguments after templates were filled in */
+  args?: Record<string, unknown>;
+  /** Parsed tool result, available to later steps as steps.<id>.output */
+  output?: unknown;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface PlaybookRunReport {
+  runId: string;
+  playbook: string;
+  status: PlaybookRunStatus;
+  steps: PlaybookStepReport[];
+}
+
+/** Progress of a run, in order: one `started`, step updates, one `done` */
+export type PlaybookEvent =
+  | { type: 'started'; runId: string; playbook: string; totalSteps: number }
+  | { type: 'step'; runId: string; step: PlaybookStepReport }
+  | { type: 'done'; report: PlaybookRunReport };
+
+export interface PlaybookRunOptions {
+  /** Values for the playbook's declared variables */
+  variables?: unknown;
+  /** Exposed to templates as session.environmentId */
+  environmentId?: string;
+  /** Stops the run; the in-flight tool call is cancelled */
+  signal?: AbortSignal;
+}
+
+/** How a run calls tools; lets the caller add quotas and auditing */
+export type PlaybookToolCaller = (name: string, args: Record<string, unknown>, signal?: AbortSignal) => Promise<any>;
+
+/**
+ * Run a playbook's steps in order. Each step's arguments are rendered
+ * against the variables and the outputs of earlier steps just before it
+ * runs. Steps are not put through the approval gate: starting the run is the
+ * user's approval. Variable errors throw before anything runs.
+ */
+export async function* runPlaybook(
+  playbook: Playbook,
+  callTool: PlaybookToolCaller,
+  options: PlaybookRunOptions = {}
+): AsyncGenerator<PlaybookEvent> {
+  const { signal } = options;
+  const scope: PlaybookScope = {
+    vars: resolveVariables(playbook, options.variables),
+    steps: {},
+    session: { environmentId: options.environmentId }
+  };
+  const runId = uuid();
+  const reports: PlaybookStepReport[] = [];
+  let status: PlaybookRunStatus = 'completed';
+
+  yield { type: 'started', runId, playbook: playbook.name, totalSteps: playbook.steps.length };
+
+  for (const [index, step] of playbook.steps.entries()) {
+    if (signal?.aborted) {
+      status = 'cancelled';
+      break;
+    }
+
+    const report: PlaybookStepReport = { id: step.id, index, tool: step.tool, status: 'running' };
+    const started = Date.now();
+    try {
+      if (step.when !== undefined && !evaluateCondition(step.when, scope)) {
+        report.status = 'skipped';
+      } else {
+        report.args = renderTemplate(step.args, scope) as Record<string, unknown>;
+        yield { type: 'step', runId, step: { ...report } };
+
+        const result = await callTool(step.tool, report.args, signal);
+        const error = toolResultError(result);
+        report.output = toolResultData(result);
+        if (error) {
+          report.status = 'failed';
+          report.error = error;
+        } else {
+          report.status = 'succeeded';
+        }
+      }
+    } catch (e) {
+      report.status = 'failed';
+      report.error = (e as Error).message;
+    }
+    if (report.status !== 'skipped') {
+      report.durationMs = Date.now() - started;
+    }
+
+    scope.steps[step.id] = { status: report.status, output: report.output, error: report.error };
+    reports.push(report);
+    yield { type: 'step', runId, step: { ...report } };
+
+    if (signal?.aborted) {
+      status = 'cancelled';
+      break;
+    }
+    if (report.status === 'failed' && step.onError === 'stop') {
+      status = 'failed';
+      break;
+    }
+  }
+
+  yield { type: 'done', report: { runId, playbook: playbook.name, status, steps: reports } };
+}
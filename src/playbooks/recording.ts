@@ -0,0 +1,127 @@
+import YAML from 'yaml';
+import type { AuditOrigin } from '../audit/auditLog.js';
+import { ResourceId } from '../mcp/resourceIds.js';
+import { REDACTED } from '../util/redact.js';
+import { Playbook, PlaybookStep, PlaybookVariable, validatePlaybook } from './playbook.js';
+import { NotFoundError } from '../util/errors.js';
+
+/** A successful mutating tool call, kept so the build-out can be replayed */
+export interface RecordedCall {
+  tool: string;
+  /**
+   * Arguments as sent, except values under secret keys, which are masked;
+   * masked values become variables on export
+   */
+  args: Record<string, unknown>;
+  /** IDs the call returned, so later calls can refer to them */
+  ids: ResourceId[];
+  environmentId?: string;
+  origin: AuditOrigin;
+  recordedAt: number;
+}
+
+export interface RecordingExportOptions {
+  name?: string;
+  description?: string;
+}
+
+function stepIdFor(call: RecordedCall, index: number): string {
+  const base = call.tool.replace(/[^\w-]/g, '_').replace(/^[^A-Za-z_]/, '_');
+  return `${base}_${index + 1}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Turn a session recording into a playbook that rebuilds the same resources
+ * anywhere. IDs are rewritten on the way:
+ * - the recorded environment ID becomes the required `environmentId` variable
+ * - an ID returned by an earlier call becomes a reference to that step's output
+ * - masked secrets become required variables named after the step and the
+ *   argument's full path (`create_user_1_users_1_password`)
+ */
+export function recordingToPlaybook(calls: RecordedCall[], options: RecordingExportOptions = {}): Playbook {
+  if (calls.length === 0) {
+    throw new NotFoundError('Nothing has been recorded in this session yet');
+  }
+
+  const variables: Record<string, PlaybookVariable> = {};
+  // Original ID -> template, most recent producer wins
+  const replacements = new Map<string, string>();
+  const environmentIds = new Set(calls.map(c => c.environmentId).filter((id): id is string => Boolean(id)));
+  for (const environmentId of environmentIds) {
+    replacements.set(environmentId, '{{ vars.environmentId }}');
+  }
+  if (environmentIds.size > 0) {
+    variables.environmentId = {
+      required: true,
+      description: `PingOne environment to build in (recorded in ${Array.from(environmentIds).join(', ')})`
+    };
+  }
+
+  // One variable per masked value, even where sanitizing makes two paths alike
+  const secretVariable = (stepId: string, path: string[]): string => {
+    const base = [stepId, ...path].join('_').replace(/[^\w]/g, '_');
+    let name = base;
+    for (let n = 2; name in variables; n++) name = `${base}_${n}`;
+    const display = path.map((key, i) => (/^\d+$/.test(key) ? `[${key}]` : i === 0 ? key : `.${key}`)).join('');
+    variables[name] = { required: true, description: `Value for the masked "${display}" argument of step ${stepId}` };
+    return name;
+  };
+
+  const rewrite = (value: unknown, stepId: string, path: string[]): unknown => {
+    if (typeof value === 'string') {
+      if (value === REDACTED) {
+        return `{{ vars.${secretVariable(stepId, path)} }}`;
+      }
+      const whole = replacements.get(value);
+      if (whole) return whole;
+      // IDs inside longer strings, such as resource paths
+      let text = value;
+      for (const [id, template] of replacements) {
+        if (text.includes(id)) text = text.replace(new RegExp(escapeRegExp(id), 'g'), template);
+      }
+      return text;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => rewrite(item, stepId, [...path, String(index)]));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rewrite(item, stepId, [...path, key])]));
+    }
+    return value;
+  };
+
+  const steps: PlaybookStep[] = calls.map((call, index) => {
+    const id = stepIdFor(call, index);
+    const step: PlaybookStep = {
+      id,
+      tool: call.tool,
+      args: rewrite(call.args, id, []) as Record<string, unknown>,
+      onError: 'stop'
+    };
+    // Only register this call's IDs after rewriting its own arguments
+    for (const resource of call.ids) {
+      if (replacements.get(resource.id)?.startsWith('{{ vars.')) continue;
+      replacements.set(resource.id, `{{ steps.${id}.output.${resource.path} }}`);
+    }
+    return step;
+  });
+
+  return validatePlaybook({
+    name: options.name || 'Recorded session',
+    description: options.description ?? `Recorded ${new Date(calls[0].recordedAt).toISOString()}, ${calls.length} calls`,
+    variables,
+    steps
+  });
+}
+
+/** YAML without the fields that only restate defaults */
+export function playbookToYaml(playbook: Playbook): string {
+  return YAML.stringify({
+    ...playbook,
+    steps: playbook.steps.map(({ onError, ...step }) => (onError === 'stop' ? step : { ...step, onError }))
+  });
+}
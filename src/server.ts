@@ -4,11 +4,38 @@ import session from 'express-session';
 import { WebSocketServer } from 'ws';
 import http from 'http';
 import path from 'path';
-import { SessionManager } from './mcp/sessionManager.js';
+import { RedisStore } from 'connect-redis';
+import { ChatBusyError, SESSION_IDLE_TIMEOUT_MS, SessionManager } from './mcp/sessionManager.js';
+import { SessionOwnedElsewhereError, createSessionStore } from './store/sessionStore.js';
+import { RedisSessionStore } from './store/redisSessionStore.js';
+import { RateLimitError } from './limits/rateLimits.js';
+import { PlaybookLibrary } from './playbooks/playbookLibrary.js';
+import { runPlaybook } from './playbooks/playbookRunner.js';
+import { playbookToYaml, recordingToPlaybook } from './playbooks/recording.js';
+import { snapshotTools, snapshotVisibleTo, summarizeSnapshot, takeSnapshot } from './snapshots/snapshot.js';
+import { diffSnapshots } from './snapshots/snapshotDiff.js';
+import { SnapshotStore } from './snapshots/snapshotStore.js';
 import { buildRouter } from './api/routes.js';
+import { chatChunkEvent } from './api/chatEvents.js';
+import { buildOpenAiRouter } from './api/openaiCompat.js';
+import { buildAdminRouter } from './api/adminRoutes.js';
+import { OidcAuth, SessionUser, oidcSettingsFromEnv } from './auth/oidc.js';
+import { sessionSecretFromEnv } from './api/sessionTokens.js';
+import {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ServerEvent,
+  negotiateProtocolVersion,
+  parseClientMessage,
+  sendEvent
+} from './api/wsProtocol.js';
 import { ChatService, ChatMessage } from './ai/chatService.js';
+import { resolveAttachments } from './ai/attachments.js';
+import { createLogger } from './util/logger.js';
+import { InvalidRequestError, NotConfiguredError, NotFoundError } from './util/errors.js';
 
 const PORT = process.env.PORT || '3000';
+const log = createLogger('server');
+const wsLog = createLogger('ws');
 
 declare module 'express-session' {
   interface SessionData {
@@ -16,34 +43,125 @@ declare module 'express-session' {
   }
 }
 
-const chatService = new ChatService();
+const playbooks = PlaybookLibrary.fromEnv();
+const snapshots = SnapshotStore.fromEnv();
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set`);
+  }
+  return value;
+}
+
+function optionalInt(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${name} must be an integer`);
+  }
+  return parsed;
+}
+
+// MCP_SERVER_HEADERS is a JSON object, e.g. {"Authorization":"Bearer ..."}
+function parseHeaders(raw?: string): Record<string, string> | undefined {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error('MCP_SERVER_HEADERS must be a JSON object');
+  }
+}
+
+// Rate limits get their own event so clients can back off instead of showing an error
+function errorEvent(e: unknown): ServerEvent {
+  if (e instanceof RateLimitError) {
+    return { type: 'rateLimited', limit: e.limit, retryAfterMs: e.retryAfterMs, error: e.message };
+  }
+  if (e instanceof ChatBusyError) {
+    return { type: 'error', code: 'chat_busy', error: e.message };
+  }
+  if (e instanceof NotFoundError) {
+    return { type: 'error', code: 'not_found', error: e.message };
+  }
+  if (e instanceof InvalidRequestError) {
+    return { type: 'error', code: 'invalid_request', error: e.message };
+  }
+  if (e instanceof NotConfiguredError) {
+    return { type: 'error', code: 'not_configured', error: e.message };
+  }
+  return { type: 'error', code: 'request_failed', error: (e as Error).message };
+}
+
+// Behind a proxy the socket address is the proxy's; TRUST_PROXY=true uses X-Forwarded-For
+function clientIp(req: http.IncomingMessage): string | undefined {
+  if (process.env.TRUST_PROXY === 'true') {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress;
+}
 
 async function main() {
   const defaultBinaryPath = path.join(process.cwd(), 'bin', 'pingone-mcp-server');
+  const initCapabilities = {
+    tools: { list: true, call: true }
+  };
+  const requestTimeoutMs = optionalInt('MCP_REQUEST_TIMEOUT_MS');
+  const toolCallTimeoutMs = optionalInt('MCP_TOOL_TIMEOUT_MS');
+  const restart = { maxAttempts: optionalInt('MCP_RESTART_MAX_ATTEMPTS') };
+  const sessionStore = await createSessionStore(SESSION_IDLE_TIMEOUT_MS);
   
   // Create session manager with MCP configuration
-  const sessionManager = new SessionManager({
-    command: process.env.MCP_SERVER_COMMAND || defaultBinaryPath,
-    args: ['run', '--disable-read-only'],
-    env: {
-      PINGONE_MCP_DEBUG: process.env.PINGONE_MCP_DEBUG,
-      PINGONE_MCP_ENVIRONMENT_ID: process.env.PINGONE_ENVIRONMENT_ID,
-      PINGONE_AUTHORIZATION_CODE_CLIENT_ID: process.env.PINGONE_CLIENT_ID,
-      PINGONE_AUTHORIZATION_CODE_SCOPES: process.env.PINGONE_AUTHORIZATION_CODE_SCOPES || 'openid',
-      PINGONE_TOP_LEVEL_DOMAIN: process.env.PINGONE_TOP_LEVEL_DOMAIN || '.com',
-      PINGONE_REGION_CODE: process.env.PINGONE_REGION_CODE || 'NA',
-      PINGONE_MCP_INTERACTIVE: 'true'  // Enable interactive prompting
-    },
-    initCapabilities: {
-      tools: { list: true, call: true }
-    }
-  });
+  const sessionManager = new SessionManager(
+    process.env.MCP_TRANSPORT === 'http'
+      ? {
+          transport: 'http',
+          url: requireEnv('MCP_SERVER_URL'),
+          headers: parseHeaders(process.env.MCP_SERVER_HEADERS),
+          initCapabilities,
+          requestTimeoutMs,
+          toolCallTimeoutMs,
+          restart
+        }
+      : {
+          transport: 'stdio',
+          command: process.env.MCP_SERVER_COMMAND || defaultBinaryPath,
+          args: ['run', '--disable-read-only'],
+          env: {
+            PINGONE_MCP_DEBUG: process.env.PINGONE_MCP_DEBUG,
+            PINGONE_MCP_ENVIRONMENT_ID: process.env.PINGONE_ENVIRONMENT_ID,
+            PINGONE_AUTHORIZATION_CODE_CLIENT_ID: process.env.PINGONE_CLIENT_ID,
+            PINGONE_AUTHORIZATION_CODE_SCOPES: process.env.PINGONE_AUTHORIZATION_CODE_SCOPES || 'openid',
+            PINGONE_TOP_LEVEL_DOMAIN: process.env.PINGONE_TOP_LEVEL_DOMAIN || '.com',
+            PINGONE_REGION_CODE: process.env.PINGONE_REGION_CODE || 'NA',
+            PINGONE_MCP_INTERACTIVE: 'true'  // Enable interactive prompting
+          },
+          initCapabilities,
+          requestTimeoutMs,
+          toolCallTimeoutMs,
+          restart
+        },
+    sessionStore
+  );
+  log.info('Session manager started', { podId: sessionManager.pod.id, store: sessionStore.kind });
+  // One chat service for the WebSocket, REST and /v1, sharing the session manager's tool policy
+  const chatService = new ChatService(undefined, undefined, sessionManager.toolPolicy);
 
   const app = express();
+  if (process.env.TRUST_PROXY === 'true') {
+    app.set('trust proxy', true);
+  }
   
   // Session middleware
   const sessionMiddleware = session({
-    secret: process.env.SESSION_SECRET || 'mcp-admin-agent-secret-change-in-production',
+    // Cookies must resolve on every pod, so they share the Redis store too
+    store: sessionStore instanceof RedisSessionStore
+      ? new RedisStore({ client: sessionStore.client, prefix: 'mcp:sess:' })
+      : undefined,
+    secret: sessionSecretFromEnv(),
     resave: false,
     saveUninitialized: true,
     cookie: {
@@ -53,10 +171,31 @@ async function main() {
     }
   });
   
+  // Ahead of the session middleware so scrapes don't each create a session
+  app.get('/metrics', async (_req, res) => {
+    try {
+      res.set('Content-Type', sessionManager.metrics.contentType).send(await sessionManager.metrics.render());
+    } catch (e) {
+      res.status(500).send((e as Error).message);
+    }
+  });
+  // Operators authenticate with ADMIN_TOKEN, not a browser session
+  app.use('/admin', buildAdminRouter(sessionManager));
   app.use(sessionMiddleware);
   app.use(express.json());
-  app.use('/api', buildRouter(sessionManager));
-  app.use('/', express.static(path.join(process.cwd(), 'src', 'frontend')));
+
+  // Without OIDC_ISSUER anyone who reaches the service gets a session
+  const oidcSettings = oidcSettingsFromEnv();
+  const auth = oidcSettings ? await OidcAuth.discover(oidcSettings) : undefined;
+  const requireLogin = (options?: Parameters<OidcAuth['requireLogin']>[0]): express.RequestHandler =>
+    auth ? auth.requireLogin(options) : (_req, _res, next) => next();
+  if (auth) {
+    app.use('/auth', auth.router(sessionId => sessionManager.endSession(sessionId)));
+  }
+
+  app.use('/api', requireLogin({ publicPaths: ['/health'] }), buildRouter(sessionManager, chatService));
+  app.use('/v1', requireLogin({ allowBearer: true }), buildOpenAiRouter(sessionManager, chatService));
+  app.use('/', requireLogin(), express.static(path.join(process.cwd(), 'src', 'frontend')));
 
   const server = http.createServer(app);
   const wss = new WebSocketServer({ server, path: '/ws' });
@@ -72,118 +211,340 @@ async function main() {
       ws.close(1008, 'No session');
       return;
     }
+    const user: SessionUser | undefined = (req as any).session?.user;
+    if (auth && !user) {
+      sendEvent(ws, { type: 'error', code: 'unauthenticated', error: 'Login required' });
+      ws.close(4003, 'Login required');
+      return;
+    }
 
-    console.log(`[WS] Connection from session: ${sessionId}`);
+    const protocolVersion = negotiateProtocolVersion(new URL(req.url ?? '/', 'http://localhost').searchParams.get('protocol'));
+    if (protocolVersion === undefined) {
+      sendEvent(ws, {
+        type: 'error',
+        code: 'unsupported_version',
+        error: `Supported protocol versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`
+      });
+      ws.close(4002, 'Unsupported protocol version');
+      return;
+    }
+
+    wsLog.debug('Connection opened', { sessionId, protocolVersion });
     
     try {
       // Get or create MCP instance for this session
-      const userSession = await sessionManager.getOrCreateSession(sessionId);
+      const userSession = await sessionManager.getOrCreateSession(sessionId, clientIp(req), user);
       sessionManager.addWebSocketConnection(sessionId, ws);
       
       // Check if MCP client is initialized
       const needsConfig = !userSession.mcpClient;
       
+      // Replay the active conversation so a refreshed browser keeps its context
+      const conversation = sessionManager.getActiveConversation(sessionId);
+      
       // Send welcome with this session's tools (or empty if not configured)
-      ws.send(JSON.stringify({ 
-        type: 'welcome', 
+      sendEvent(ws, {
+        type: 'welcome',
+        protocolVersion,
+        supportedProtocolVersions: [...SUPPORTED_PROTOCOL_VERSIONS],
+        conversation: conversation ? { id: conversation.id, messages: conversation.messages } : undefined,
         tools: userSession.mcpClient?.listTools() || [],
         sessionId,
-        needsConfig
-      }));
+        user: userSession.user && { subject: userSession.user.subject, email: userSession.user.email, name: userSession.user.name },
+        needsConfig,
+        mcpStatus: userSession.mcpClient?.status,
+        // Lets the config form pre-fill after a pod takeover or a failed start
+        pingoneConfig: needsConfig ? userSession.pingoneConfig : undefined,
+        environments: sessionManager.listEnvironments(sessionId),
+        activeEnvironment: userSession.activeEnvironment,
+        providers: chatService.listProviders(),
+        provider: userSession.llmProviderId || chatService.defaultProviderId
+      });
+      // A login started before this browser connected still needs its link shown
+      for (const event of sessionManager.pendingAuthEvents(sessionId)) {
+        sendEvent(ws, event);
+      }
 
       ws.on('message', async raw => {
-        let msg: any;
-        try { msg = JSON.parse(raw.toString()); } catch { return; }
-        
-        if (msg.type === 'configurePingOne') {
-          // User providing PingOne configuration
-          try {
+        const parsed = parseClientMessage(raw.toString());
+        if ('error' in parsed) {
+          sendEvent(ws, parsed.error);
+          return;
+        }
+        const msg = parsed.message;
+        // Every event answering this message carries its requestId
+        const reply = (event: ServerEvent) => sendEvent(ws, { ...event, requestId: msg.requestId });
+
+        try {
+          if (msg.type === 'configurePingOne') {
+            // User providing PingOne configuration
             await sessionManager.initializeMcpClient(sessionId, {
               environmentId: msg.config.environmentId,
               clientId: msg.config.clientId,
               region: msg.config.region,
               topLevelDomain: msg.config.topLevelDomain
-            });
+            }, msg.name);
             
-            ws.send(JSON.stringify({
+            reply({
               type: 'configured',
+              environment: userSession.activeEnvironment,
               tools: userSession.mcpClient?.listTools() || []
-            }));
-          } catch (e) {
-            ws.send(JSON.stringify({ type: 'error', error: (e as Error).message }));
-          }
-        } else if (msg.type === 'callTool') {
-          try {
+            });
+          } else if (msg.type === 'callTool') {
             if (!userSession.mcpClient) {
-              ws.send(JSON.stringify({ type: 'error', error: 'PingOne not configured. Please provide configuration first.' }));
+              reply({ type: 'error', code: 'not_configured', error: 'PingOne not configured. Please provide configuration first.' });
               return;
             }
-            const result = await userSession.mcpClient.callTool(msg.name, msg.args || {});
-            ws.send(JSON.stringify({ type: 'toolResult', name: msg.name, result }));
-          } catch (e) {
-            ws.send(JSON.stringify({ type: 'error', error: (e as Error).message }));
-          }
-        } else if (msg.type === 'chat') {
-          // Handle chat message with streaming
-          try {
+            const environment = msg.environment ?? userSession.activeEnvironment;
+            const result = await sessionManager.callTool(sessionId, msg.name, msg.args || {}, 'ws', { environment });
+            reply({ type: 'toolResult', name: msg.name, environment, result });
+          } else if (msg.type === 'listResources') {
+            const client = userSession.mcpClient;
+            const [resources, resourceTemplates] = client
+              ? await Promise.all([client.listResources(), client.listResourceTemplates()])
+              : [[], []];
+            reply({ type: 'resources', resources, resourceTemplates });
+          } else if (msg.type === 'readResource') {
+            if (!userSession.mcpClient) {
+              reply({ type: 'error', code: 'not_configured', error: 'PingOne not configured. Please provide configuration first.' });
+              return;
+            }
+            const contents = await userSession.mcpClient.readResource(msg.uri);
+            reply({ type: 'resourceContents', uri: msg.uri, contents });
+          } else if (msg.type === 'listPrompts') {
+            const prompts = userSession.mcpClient ? await userSession.mcpClient.listPrompts() : [];
+            reply({ type: 'prompts', prompts });
+          } else if (msg.type === 'getPrompt') {
+            // Not to be confused with 'prompt', which is the server asking the user for input
             if (!userSession.mcpClient) {
-              ws.send(JSON.stringify({ type: 'error', error: 'PingOne not configured. Please provide configuration first.' }));
+              reply({ type: 'error', code: 'not_configured', error: 'PingOne not configured. Please provide configuration first.' });
+              return;
+            }
+            const result = await userSession.mcpClient.getPrompt(msg.name, msg.arguments || {});
+            reply({ type: 'promptMessages', name: msg.name, ...result });
+          } else if (msg.type === 'listEnvironments') {
+            reply({
+              type: 'environments',
+              active: userSession.activeEnvironment,
+              environments: sessionManager.listEnvironments(sessionId),
+              tools: userSession.mcpClient?.listTools() || []
+            });
+          } else if (msg.type === 'switchEnvironment' || msg.type === 'removeEnvironment') {
+            // Every socket of the session hears about the change as an 'environments' event
+            if (msg.type === 'switchEnvironment') {
+              sessionManager.switchEnvironment(sessionId, msg.name);
+            } else {
+              await sessionManager.removeEnvironment(sessionId, msg.name);
+            }
+          } else if (msg.type === 'login') {
+            // The new link arrives as 'authRequired', then 'authStatus' once the login ends
+            sessionManager.login(sessionId, msg.environment);
+          } else if (msg.type === 'newConversation') {
+            const conversation = sessionManager.startConversation(sessionId);
+            reply({ type: 'conversationStarted', conversationId: conversation.id });
+          } else if (msg.type === 'setProvider') {
+            if (!chatService.hasProvider(msg.providerId)) {
+              reply({ type: 'error', code: 'invalid_request', error: `Unknown LLM provider: ${msg.providerId}` });
+              return;
+            }
+            sessionManager.setLlmProvider(sessionId, msg.providerId);
+            reply({ type: 'providerSelected', provider: msg.providerId });
+          } else if (msg.type === 'chat') {
+            // Handle chat message with streaming
+            if (!userSession.mcpClient) {
+              reply({ type: 'error', code: 'not_configured', error: 'PingOne not configured. Please provide configuration first.' });
+              return;
+            }
+            // Only the new user turn is accepted; history comes from the server
+            const content = msg.content?.trim() ?? '';
+            const attachments = msg.attachments ?? [];
+            if (!content && attachments.length === 0) {
+              reply({ type: 'error', code: 'invalid_request', error: 'Chat message content is required' });
               return;
             }
-            const messages: ChatMessage[] = msg.messages || [];
+            const conversation = sessionManager.getOrCreateConversation(sessionId, msg.conversationId);
+            const controller = sessionManager.beginChat(sessionId);
             
-            for await (const chunk of chatService.chat(
-              messages, 
-              userSession.mcpClient,
-              undefined, // onToolCall
-              async (promptId, params) => {
-                // Prompt during chat - send to client and wait for response
-                return new Promise((resolve, reject) => {
-                  const timeout = setTimeout(() => {
-                    reject(new Error('Prompt timeout - no client response'));
-                  }, 120000);
-                  
-                  // Store in session's prompt resolvers
-                  userSession.promptResolvers.set(promptId, { resolve, reject, timeout });
-                  
-                  // Send prompt to client
-                  ws.send(JSON.stringify({
-                    type: 'prompt',
-                    id: promptId,
-                    params
-                  }));
-                });
+            try {
+              // Attached resources and prompts go into history ahead of the user's turn
+              const turn = await resolveAttachments(userSession.mcpClient, attachments, controller.signal);
+              if (content) {
+                const userMessage: ChatMessage = { role: 'user', content };
+                turn.push(userMessage);
+              }
+              sessionManager.appendConversationMessages(sessionId, conversation.id, turn);
+
+              for await (const chunk of chatService.chat(
+                [...conversation.messages], 
+                userSession.mcpClient,
+                undefined, // onToolCall
+                async (promptId, params) => {
+                  // Prompt during chat - send to client and wait for response
+                  return new Promise((resolve, reject) => {
+                    // Cancelling the turn withdraws the prompt: no stale dialog, no false timeout
+                    const onAbort = () => {
+                      clearTimeout(timeout);
+                      userSession.promptResolvers.delete(promptId);
+                      reply({ type: 'promptClosed', id: promptId, reason: 'cancelled' });
+                      reject(new Error('Chat cancelled'));
+                    };
+                    const timeout = setTimeout(() => {
+                      controller.signal.removeEventListener('abort', onAbort);
+                      userSession.promptResolvers.delete(promptId);
+                      sessionManager.metrics.promptTimedOut('chat');
+                      reply({ type: 'promptClosed', id: promptId, reason: 'timeout' });
+                      reject(new Error('Prompt timeout - no client response'));
+                    }, 120000);
+                    controller.signal.addEventListener('abort', onAbort, { once: true });
+                    
+                    // Store in session's prompt resolvers
+                    userSession.promptResolvers.set(promptId, {
+                      resolve: value => {
+                        controller.signal.removeEventListener('abort', onAbort);
+                        resolve(value);
+                      },
+                      reject: reason => {
+                        controller.signal.removeEventListener('abort', onAbort);
+                        reject(reason);
+                      },
+                      timeout,
+                      source: 'chat',
+                      createdAt: Date.now()
+                    });
+                    
+                    // Send prompt to client
+                    reply({
+                      type: 'prompt',
+                      id: promptId,
+                      params
+                    });
+                  });
+                },
+                {
+                  providerId: userSession.llmProviderId,
+                  signal: controller.signal,
+                  ...sessionManager.chatHooks(sessionId)
+                }
+              )) {
+                if (chunk.type === 'message' && chunk.message) {
+                  sessionManager.appendConversationMessages(sessionId, conversation.id, [chunk.message]);
+                }
+                const event = chatChunkEvent(chunk, conversation.id);
+                if (event) {
+                  reply(event);
+                }
               }
-            )) {
-              if (chunk.type === 'text' && chunk.content) {
-                ws.send(JSON.stringify({ 
-                  type: 'chatDelta', 
-                  content: chunk.content 
-                }));
-              } else if (chunk.type === 'tool_call') {
-                ws.send(JSON.stringify({ 
-                  type: 'chatToolCall', 
-                  toolName: chunk.toolName,
-                  toolArgs: chunk.toolArgs
-                }));
-              } else if (chunk.type === 'tool_result') {
-                ws.send(JSON.stringify({ 
-                  type: 'chatToolResult', 
-                  toolName: chunk.toolName,
-                  result: chunk.toolResult
-                }));
-              } else if (chunk.type === 'done') {
-                ws.send(JSON.stringify({ type: 'chatDone' }));
-              } else if (chunk.type === 'error') {
-                ws.send(JSON.stringify({ type: 'error', error: chunk.error }));
+            } finally {
+              sessionManager.endChat(sessionId, controller);
+            }
+          } else if (msg.type === 'listPlaybooks') {
+            reply({ type: 'playbooks', ...(await playbooks.list()) });
+          } else if (msg.type === 'runPlaybook') {
+            if (!userSession.mcpClient) {
+              reply({ type: 'error', code: 'not_configured', error: 'PingOne not configured. Please provide configuration first.' });
+              return;
+            }
+            const playbook = await playbooks.resolve(msg);
+            // A playbook run takes the session's chat slot, so cancelChat stops it too
+            const controller = sessionManager.beginChat(sessionId);
+            try {
+              const run = runPlaybook(
+                playbook,
+                (name, args, signal) => sessionManager.callTool(sessionId, name, args, 'playbook', { signal }),
+                {
+                  variables: msg.variables,
+                  environmentId: userSession.pingoneConfig?.environmentId,
+                  signal: controller.signal
+                }
+              );
+              for await (const event of run) {
+                if (event.type === 'started') {
+                  reply({ type: 'playbookStarted', runId: event.runId, playbook: event.playbook, totalSteps: event.totalSteps });
+                } else if (event.type === 'step') {
+                  reply({ type: 'playbookStep', runId: event.runId, step: event.step });
+                } else {
+                  reply({ type: 'playbookDone', ...event.report });
+                }
+                sessionManager.touchSession(sessionId);
+              }
+            } finally {
+              sessionManager.endChat(sessionId, controller);
+            }
+          } else if (msg.type === 'getRecording') {
+            reply({ type: 'recording', calls: sessionManager.getRecording(sessionId) });
+          } else if (msg.type === 'clearRecording') {
+            sessionManager.clearRecording(sessionId);
+            reply({ type: 'recording', calls: [] });
+          } else if (msg.type === 'exportRecording') {
+            const playbook = recordingToPlaybook(sessionManager.getRecording(sessionId), { name: msg.name });
+            reply({ type: 'recordingPlaybook', playbook, yaml: playbookToYaml(playbook) });
+          } else if (msg.type === 'getLedger') {
+            reply({ type: 'ledger', resources: sessionManager.getLedger(sessionId) });
+          } else if (msg.type === 'teardown') {
+            const dryRun = msg.dryRun === true;
+            // Like a playbook run, a teardown holds the chat slot and cancelChat stops it
+            const controller = dryRun ? undefined : sessionManager.beginChat(sessionId);
+            try {
+              const report = await sessionManager.teardown(sessionId, {
+                dryRun,
+                signal: controller?.signal,
+                onStep: step => {
+                  reply({ type: 'teardownStep', step });
+                  sessionManager.touchSession(sessionId);
+                }
+              });
+              reply({ type: 'teardownDone', ...report, remaining: sessionManager.getLedger(sessionId) });
+            } finally {
+              if (controller) sessionManager.endChat(sessionId, controller);
+            }
+          } else if (msg.type === 'listSnapshots') {
+            const environmentId = userSession.pingoneConfig?.environmentId;
+            reply({
+              type: 'snapshots',
+              snapshots: await snapshots.list(s => snapshotVisibleTo(s, sessionId, environmentId))
+            });
+          } else if (msg.type === 'takeSnapshot') {
+            if (!userSession.mcpClient) {
+              reply({ type: 'error', code: 'not_configured', error: 'PingOne not configured. Please provide configuration first.' });
+              return;
+            }
+            const tools = snapshotTools(userSession.mcpClient.listTools(), sessionManager.toolPolicy);
+            if (tools.length === 0) {
+              reply({ type: 'error', code: 'invalid_request', error: 'The MCP server has no read-only list tools to snapshot' });
+              return;
+            }
+            const snapshot = await takeSnapshot(
+              tools,
+              (name, args) => sessionManager.callTool(sessionId, name, args, 'snapshot'),
+              {
+                sessionId,
+                environmentId: userSession.pingoneConfig?.environmentId,
+                name: msg.name,
+                onProgress: progress => reply({ type: 'snapshotProgress', ...progress })
               }
+            );
+            await snapshots.save(snapshot);
+            reply({ type: 'snapshotTaken', snapshot: summarizeSnapshot(snapshot) });
+          } else if (msg.type === 'diffSnapshots') {
+            const environmentId = userSession.pingoneConfig?.environmentId;
+            const [before, after] = await Promise.all([snapshots.get(msg.from), snapshots.get(msg.to)]);
+            if (!before || !after || !snapshotVisibleTo(before, sessionId, environmentId) || !snapshotVisibleTo(after, sessionId, environmentId)) {
+              reply({ type: 'error', code: 'not_found', error: 'Unknown snapshot' });
+              return;
+            }
+            reply({ type: 'snapshotDiff', diff: diffSnapshots(before, after) });
+          } else if (msg.type === 'cancelChat') {
+            // chatDone with status 'cancelled' is sent by the running chat loop
+            if (!sessionManager.cancelChat(sessionId)) {
+              wsLog.debug('cancelChat with no active chat', { sessionId });
             }
-          } catch (e) {
-            ws.send(JSON.stringify({ type: 'error', error: (e as Error).message }));
+          } else if (msg.type === 'promptResponse') {
+            // Client is responding to a prompt request
+            sessionManager.handlePromptResponse(sessionId, msg.id, msg.response);
           }
-        } else if (msg.type === 'promptResponse') {
-          // Client is responding to a prompt request
-          sessionManager.handlePromptResponse(sessionId, msg.id, msg.response);
+        } catch (e) {
+          // Also covers a frame that races the session being ended (logout, terminate)
+          reply(errorEvent(e));
         }
       });
 
@@ -191,27 +552,40 @@ async function main() {
         sessionManager.removeWebSocketConnection(sessionId, ws);
       });
     } catch (error) {
-      console.error(`[WS] Error setting up session ${sessionId}:`, error);
+      if (error instanceof RateLimitError) {
+        sendEvent(ws, errorEvent(error));
+        ws.close(1008, 'Rate limited');
+        return;
+      }
+      if (error instanceof SessionOwnedElsewhereError) {
+        // Browsers can't follow a redirect on a WebSocket; tell the page where to go instead
+        wsLog.info('Session belongs to another pod, turning connection away', { sessionId, owner: error.owner.id });
+        sendEvent(ws, { type: 'sessionElsewhere', podId: error.owner.id, address: error.owner.address });
+        ws.close(4001, 'Session active on another pod');
+        return;
+      }
+      wsLog.error('Error setting up session', { sessionId, error });
       ws.close(1011, 'Internal error');
     }
   });
 
   // Graceful shutdown
-  process.on('SIGTERM', () => {
-    console.log('[SHUTDOWN] Received SIGTERM, cleaning up...');
-    sessionManager.shutdown();
-    server.close(() => {
-      console.log('[SHUTDOWN] Server closed');
+  process.on('SIGTERM', async () => {
+    log.info('Received SIGTERM, shutting down');
+    await sessionManager.shutdown();
+    server.close(async () => {
+      await sessionStore.close();
+      log.info('Server closed');
       process.exit(0);
     });
   });
 
   server.listen(parseInt(PORT, 10), () => {
-    console.log(`Server listening on :${PORT}`);
+    log.info('Server listening', { port: PORT });
   });
 }
 
 main().catch(err => {
-  console.error('Fatal startup error', err);
+  log.error('Fatal startup error', { error: err });
   process.exit(1);
 });
@@ -0,0 +1,208 @@
+import { v4 as uuid } from 'uuid';
+import { McpToolDefinition } from '../mcp/mcpClient.js';
+import { ToolPolicy } from '../mcp/toolPolicy.js';
+import { findListPath, toolResultData, toolResultError } from '../mcp/toolResult.js';
+import { resourceTypeFromTool } from '../mcp/resourceIds.js';
+import { RateLimitError } from '../limits/rateLimits.js';
+
+/** A normalized picture of one environment's configuration */
+export interface Snapshot {
+  id: string;
+  name?: string;
+  createdAt: string;
+  sessionId: string;
+  environmentId?: string;
+  /** Resource type (from the list tool's name) -> resource ID -> resource */
+  resources: Record<string, Record<string, Record<string, unknown>>>;
+  /** Resource types whose list tool failed; they are left out of diffs */
+  errors: Record<string, string>;
+  /**
+   * Resource types with more pages than could be read (the tool takes no
+   * cursor, or MAX_SNAPSHOT_PAGES was reached); also left out of diffs.
+   * Absent in snapshots saved before it was recorded.
+   */
+  truncated?: string[];
+}
+
+export interface SnapshotSummary {
+  id: string;
+  name?: string;
+  createdAt: string;
+  environmentId?: string;
+  counts: Record<string, number>;
+  errors: Record<string, string>;
+  truncated: string[];
+}
+
+export interface SnapshotProgress {
+  tool: string;
+  done: number;
+  total: number;
+}
+
+export type SnapshotToolCaller = (name: string, args: Record<string, unknown>) => Promise<any>;
+
+// Guards against a list tool that keeps returning a cursor
+const MAX_SNAPSHOT_PAGES = 100;
+
+// Fields that change on their own and would make every diff noisy
+const VOLATILE_KEYS = new Set(['_links', 'createdAt', 'updatedAt', 'lastSignOn', 'lastTransactionId', 'lifecycle']);
+
+/**
+ * Tools a snapshot walks: read-only `list-*` tools that need nothing but
+ * (optionally) the environment ID. SNAPSHOT_TOOLS, a comma-separated list of
+ * tool names, replaces the automatic choice.
+ */
+export function snapshotTools(
+  tools: McpToolDefinition[],
+  policy: ToolPolicy,
+  env: NodeJS.ProcessEnv = process.env
+): McpToolDefinition[] {
+  const configured = env.SNAPSHOT_TOOLS?.split(',').map(name => name.trim()).filter(Boolean);
+  if (configured?.length) {
+    return tools.filter(tool => configured.includes(tool.name));
+  }
+  return tools.filter(tool => {
+    if (!tool.name.startsWith('list-') || !policy.classify(tool).readOnly) return false;
+    const required: string[] = tool.inputSchema?.required ?? [];
+    return required.every(name => name === 'environmentId');
+  });
+}
+
+/** Sorted keys, volatile fields dropped, so equal configuration compares equal */
+export function normalizeResource(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalizeResource);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter(key => !VOLATILE_KEYS.has(key))
+        .sort()
+        .map(key => [key, normalizeResource((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+function itemsOf(data: unknown): unknown[] | undefined {
+  const path = findListPath(data);
+  if (!path) return undefined;
+  return path.reduce((node: any, key) => node?.[key], data);
+}
+
+/**
+ * Where the next page starts, if the payload says there is one: an MCP-style
+ * `nextCursor`, or the `cursor` of PingOne's `_links.next.href`. `true` when
+ * there is a next page but no cursor to ask for it with.
+ */
+function nextPage(data: any): string | true | undefined {
+  if (typeof data?.nextCursor === 'string' && data.nextCursor) return data.nextCursor;
+  const href = data?._links?.next?.href;
+  if (typeof href !== 'string') return undefined;
+  try {
+    return new URL(href).searchParams.get('cursor') ?? true;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Call each list tool in turn and collect what it returns, keyed by resource
+ * ID. Tools that take a `cursor` are called again for each further page; a
+ * type with pages left unread is listed in `truncated`. One failing tool is
+ * recorded in `errors` rather than failing the snapshot, except for a rate
+ * limit, which would only get worse with every remaining tool.
+ */
+export async function takeSnapshot(
+  tools: McpToolDefinition[],
+  callTool: SnapshotToolCaller,
+  options: {
+    sessionId: string;
+    environmentId?: string;
+    name?: string;
+    signal?: AbortSignal;
+    onProgress?: (progress: SnapshotProgress) => void;
+  }
+): Promise<Snapshot> {
+  const snapshot: Snapshot = {
+    id: uuid(),
+    name: options.name,
+    createdAt: new Date().toISOString(),
+    sessionId: options.sessionId,
+    environmentId: options.environmentId,
+    resources: {},
+    errors: {},
+    truncated: []
+  };
+
+  for (const [index, tool] of tools.entries()) {
+    if (options.signal?.aborted) {
+      throw new Error('Snapshot cancelled');
+    }
+    const type = resourceTypeFromTool(tool.name);
+    const args = tool.inputSchema?.properties?.environmentId && options.environmentId
+      ? { environmentId: options.environmentId }
+      : {};
+    const takesCursor = Boolean(tool.inputSchema?.properties?.cursor);
+    try {
+      const byId: Record<string, Record<string, unknown>> = {};
+      let position = 0;
+      let cursor: string | undefined;
+      for (let page = 1; ; page++) {
+        const result = await callTool(tool.name, cursor ? { ...args, cursor } : args);
+        const error = toolResultError(result);
+        const data = error ? undefined : toolResultData(result);
+        const items = error ? undefined : itemsOf(data);
+        if (error || !items) {
+          snapshot.errors[type] = error ?? 'Result did not contain a list';
+          break;
+        }
+        for (const item of items) {
+          const fallbackId = `#${position++}`;
+          if (!item || typeof item !== 'object') continue;
+          const id = typeof (item as any).id === 'string' ? (item as any).id : fallbackId;
+          byId[id] = normalizeResource(item) as Record<string, unknown>;
+        }
+        const next = nextPage(data);
+        if (next === undefined) break;
+        if (next === true || !takesCursor || page >= MAX_SNAPSHOT_PAGES) {
+          snapshot.truncated!.push(type);
+          break;
+        }
+        if (options.signal?.aborted) {
+          throw new Error('Snapshot cancelled');
+        }
+        cursor = next;
+      }
+      if (!snapshot.errors[type]) {
+        snapshot.resources[type] = byId;
+      }
+    } catch (e) {
+      if (e instanceof RateLimitError || options.signal?.aborted) throw e;
+      snapshot.errors[type] = (e as Error).message;
+    }
+    options.onProgress?.({ tool: tool.name, done: index + 1, total: tools.length });
+  }
+  return snapshot;
+}
+
+/**
+ * A snapshot can be seen from the session that took it, and from any session
+ * configured for the same environment.
+ */
+export function snapshotVisibleTo(snapshot: Snapshot, sessionId: string, environmentId?: string): boolean {
+  return snapshot.sessionId === sessionId || (environmentId !== undefined && snapshot.environmentId === environmentId);
+}
+
+export function summarizeSnapshot(snapshot: Snapshot): SnapshotSummary {
+  return {
+    id: snapshot.id,
+    name: snapshot.name,
+    createdAt: snapshot.createdAt,
+    environmentId: snapshot.environmentId,
+    counts: Object.fromEntries(Object.entries(snapshot.resources).map(([type, items]) => [type, Object.keys(items).length])),
+    errors: snapshot.errors,
+    truncated: snapshot.truncated ?? []
+  };
+}
@@ -0,0 +1,146 @@
+import { Snapshot } from './snapshot.js';
+
+export interface FieldChange {
+  /** Dotted path inside the resource; arrays compare as a whole */
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ResourceRef {
+  id: string;
+  name?: string;
+}
+
+export interface SnapshotDiff {
+  from: { id: string; environmentId?: string; createdAt: string };
+  to: { id: string; environmentId?: string; createdAt: string };
+  /** `id` within one environment, `name` across two */
+  matchedBy: 'id' | 'name';
+  added: Record<string, ResourceRef[]>;
+  removed: Record<string, ResourceRef[]>;
+  changed: Record<string, Array<ResourceRef & { changes: FieldChange[] }>>;
+  /** Types one of the snapshots could not read, or read only in part; not compared */
+  skipped: string[];
+  summary: { added: number; removed: number; changed: number };
+}
+
+// Per-environment values that say nothing about configuration drift
+const CROSS_ENVIRONMENT_IGNORED = new Set(['id', 'environment']);
+
+function displayName(resource: Record<string, unknown>): string | undefined {
+  for (const key of ['name', 'username', 'displayName', 'title']) {
+    if (typeof resource[key] === 'string') return resource[key] as string;
+  }
+  return undefined;
+}
+
+interface KeyedResource {
+  id: string;
+  resource: Record<string, unknown>;
+}
+
+// By name several resources can share a key ("Default" policies, groups, ...)
+function keyResources(
+  resources: Record<string, Record<string, unknown>>,
+  matchedBy: 'id' | 'name'
+): Map<string, KeyedResource[]> {
+  const keyed = new Map<string, KeyedResource[]>();
+  for (const [id, resource] of Object.entries(resources)) {
+    const key = matchedBy === 'id' ? id : displayName(resource) ?? id;
+    const entries = keyed.get(key);
+    if (entries) {
+      entries.push({ id, resource });
+    } else {
+      keyed.set(key, [{ id, resource }]);
+    }
+  }
+  return keyed;
+}
+
+function compare(before: unknown, after: unknown, path: string[], ignored: Set<string>, changes: FieldChange[]) {
+  const isObject = (value: unknown) => value !== null && typeof value === 'object' && !Array.isArray(value);
+  if (isObject(before) && isObject(after)) {
+    const b = before as Record<string, unknown>;
+    const a = after as Record<string, unknown>;
+    const keys = Array.from(new Set([...Object.keys(b), ...Object.keys(a)])).sort();
+    for (const key of keys) {
+      if (ignored.has(key)) continue;
+      compare(b[key], a[key], [...path, key], ignored, changes);
+    }
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path: path.join('.'), before, after });
+  }
+}
+
+/**
+ * Structured difference between two snapshots. Snapshots of the same
+ * environment match resources by ID; snapshots of two environments match
+ * them by name and ignore IDs, since those differ by definition.
+ */
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotDiff {
+  const matchedBy = from.environmentId === to.environmentId ? 'id' : 'name';
+  const ignored = matchedBy === 'id' ? new Set<string>() : CROSS_ENVIRONMENT_IGNORED;
+  const diff: SnapshotDiff = {
+    from: { id: from.id, environmentId: from.environmentId, createdAt: from.createdAt },
+    to: { id: to.id, environmentId: to.environmentId, createdAt: to.createdAt },
+    matchedBy,
+    added: {},
+    removed: {},
+    changed: {},
+    skipped: [],
+    summary: { added: 0, removed: 0, changed: 0 }
+  };
+
+  const types = Array.from(new Set([
+    ...Object.keys(from.resources),
+    ...Object.keys(to.resources),
+    ...Object.keys(from.errors),
+    ...Object.keys(to.errors)
+  ])).sort();
+  for (const type of types) {
+    if (from.errors[type] || to.errors[type] || from.truncated?.includes(type) || to.truncated?.includes(type)) {
+      diff.skipped.push(type);
+      continue;
+    }
+    const before = keyResources(from.resources[type] ?? {}, matchedBy);
+    const after = keyResources(to.resources[type] ?? {}, matchedBy);
+
+    const changesTo = (previous: KeyedResource, current: KeyedResource) => {
+      const changes: FieldChange[] = [];
+      compare(previous.resource, current.resource, [], ignored, changes);
+      return changes;
+    };
+    for (const key of new Set([...after.keys(), ...before.keys()])) {
+      const unmatched = [...(before.get(key) ?? [])];
+      // Resources sharing a name pair up with an unchanged twin first, then in order
+      const pending: KeyedResource[] = [];
+      for (const current of after.get(key) ?? []) {
+        const twin = unmatched.findIndex(previous => changesTo(previous, current).length === 0);
+        if (twin >= 0) {
+          unmatched.splice(twin, 1);
+        } else {
+          pending.push(current);
+        }
+      }
+      for (const current of pending) {
+        const previous = unmatched.shift();
+        if (!previous) {
+          (diff.added[type] ??= []).push({ id: current.id, name: displayName(current.resource) });
+          continue;
+        }
+        const changes = changesTo(previous, current);
+        (diff.changed[type] ??= []).push({ id: current.id, name: displayName(current.resource), changes });
+      }
+      for (const { id, resource } of unmatched) {
+        (diff.removed[type] ??= []).push({ id, name: displayName(resource) });
+      }
+    }
+  }
+
+  const count = (group: Record<string, unknown[]>) => Object.values(group).reduce((sum, list) => sum + list.length, 0);
+  diff.summary = { added: count(diff.added), removed: count(diff.removed), changed: count(diff.changed) };
+  return diff;
+}
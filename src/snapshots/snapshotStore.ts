@@ -0,0 +1,66 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Snapshot, SnapshotSummary, summarizeSnapshot } from './snapshot.js';
+import { InvalidRequestError } from '../util/errors.js';
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * Snapshots as JSON files, one per snapshot, in SNAPSHOTS_DIR. They outlive
+ * sessions on purpose: drift in a shared tenant shows up days later. Put the
+ * directory on a shared volume when running several pods.
+ */
+export class SnapshotStore {
+  constructor(readonly dir: string) {}
+
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SnapshotStore {
+    return new SnapshotStore(env.SNAPSHOTS_DIR || path.join(os.tmpdir(), 'mcp-snapshots'));
+  }
+
+  private file(id: string): string {
+    // IDs come from URLs; never let one point outside the directory
+    if (!ID_PATTERN.test(id)) {
+      throw new InvalidRequestError(`Invalid snapshot ID: ${id}`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async save(snapshot: Snapshot): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(this.file(snapshot.id), JSON.stringify(snapshot), 'utf8');
+  }
+
+  async get(id: string): Promise<Snapshot | undefined> {
+    if (!ID_PATTERN.test(id)) return undefined;
+    try {
+      return JSON.parse(await fs.promises.readFile(this.file(id), 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw e;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!ID_PATTERN.test(id)) return false;
+    try {
+      await fs.promises.unlink(this.file(id));
+      return true;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw e;
+    }
+  }
+
+  /** Newest first; `visible` decides which snapshots the caller may see */
+  async list(visible: (snapshot: Snapshot) => boolean): Promise<SnapshotSummary[]> {
+    if (!fs.existsSync(this.dir)) return [];
+    const summaries: SnapshotSummary[] = [];
+    for (const file of await fs.promises.readdir(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      const snapshot = await this.get(path.basename(file, '.json')).catch(() => undefined);
+      if (snapshot && visible(snapshot)) summaries.push(summarizeSnapshot(snapshot));
+    }
+    return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
@@ -0,0 +1,109 @@
+import type { Conversation } from '../mcp/sessionManager.js';
+import type { RecordedCall } from '../playbooks/recording.js';
+import type { TrackedResource } from '../mcp/resourceLedger.js';
+import { PodInfo, SessionStore, StoredSession } from './sessionStore.js';
+
+interface Entry {
+  session: StoredSession;
+  conversations: Map<string, Conversation>;
+  recording: RecordedCall[];
+  ledger: TrackedResource[];
+  expiresAt: number;
+}
+
+/**
+ * Single-process store; the default. Everything is lost on restart, which
+ * matches the behaviour before stores existed.
+ */
+export class MemorySessionStore implements SessionStore {
+  readonly kind = 'memory' as const;
+  private entries = new Map<string, Entry>();
+  private pods = new Map<string, { pod: PodInfo; expiresAt: number }>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  private entry(sessionId: string): Entry | undefined {
+    const entry = this.entries.get(sessionId);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(sessionId);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async getSession(sessionId: string): Promise<StoredSession | undefined> {
+    const entry = this.entry(sessionId);
+    return entry ? { ...entry.session } : undefined;
+  }
+
+  async saveSession(session: StoredSession): Promise<void> {
+    const entry = this.entry(session.sessionId);
+    const { ownerPodId: _ignored, ...meta } = session;
+    this.entries.set(session.sessionId, {
+      session: { ...meta, ownerPodId: entry?.session.ownerPodId },
+      conversations: entry?.conversations ?? new Map(),
+      recording: entry?.recording ?? [],
+      ledger: entry?.ledger ?? [],
+      expiresAt: Date.now() + this.ttlMs
+    });
+  }
+
+  async claimSession(sessionId: string, podId: string | undefined, expectedOwner: string | undefined): Promise<boolean> {
+    const entry = this.entry(sessionId);
+    if (!entry || entry.session.ownerPodId !== expectedOwner) return false;
+    entry.session.ownerPodId = podId;
+    return true;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.entries.delete(sessionId);
+  }
+
+  async getConversations(sessionId: string): Promise<Conversation[]> {
+    return Array.from(this.entry(sessionId)?.conversations.values() ?? []);
+  }
+
+  async saveConversation(sessionId: string, conversation: Conversation): Promise<void> {
+    this.entry(sessionId)?.conversations.set(conversation.id, conversation);
+  }
+
+  async getRecording(sessionId: string): Promise<RecordedCall[]> {
+    return [...(this.entry(sessionId)?.recording ?? [])];
+  }
+
+  async appendRecording(sessionId: string, call: RecordedCall): Promise<void> {
+    this.entry(sessionId)?.recording.push(call);
+  }
+
+  async clearRecording(sessionId: string): Promise<void> {
+    const entry = this.entry(sessionId);
+    if (entry) entry.recording = [];
+  }
+
+  async getLedger(sessionId: string): Promise<TrackedResource[]> {
+    return [...(this.entry(sessionId)?.ledger ?? [])];
+  }
+
+  async saveLedger(sessionId: string, resources: TrackedResource[]): Promise<void> {
+    const entry = this.entry(sessionId);
+    if (entry) entry.ledger = [...resources];
+  }
+
+  async registerPod(pod: PodInfo, ttlMs: number): Promise<void> {
+    this.pods.set(pod.id, { pod, expiresAt: Date.now() + ttlMs });
+  }
+
+  async getPod(podId: string): Promise<PodInfo | undefined> {
+    const entry = this.pods.get(podId);
+    return entry && entry.expiresAt > Date.now() ? entry.pod : undefined;
+  }
+
+  async removePod(podId: string): Promise<void> {
+    this.pods.delete(podId);
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+    this.pods.clear();
+  }
+}
@@ -0,0 +1,155 @@
+import { createClient, RedisClientType } from 'redis';
+import type { Conversation } from '../mcp/sessionManager.js';
+import type { RecordedCall } from '../playbooks/recording.js';
+import type { TrackedResource } from '../mcp/resourceLedger.js';
+import { PodInfo, SessionStore, StoredSession } from './sessionStore.js';
+import { createLogger } from '../util/logger.js';
+
+export type RedisClient = RedisClientType;
+
+const log = createLogger('redis');
+
+// Compare-and-set on the owner key; an empty string stands for "no owner"
+const CLAIM_SCRIPT = `
+local current = redis.call('GET', KEYS[1]) or ''
+if current ~= ARGV[1] then return 0 end
+if ARGV[2] == '' then
+  redis.call('DEL', KEYS[1])
+else
+  redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+end
+return 1`;
+
+/**
+ * Store shared by all pods. Keys per session:
+ *   mcp:session:<id>               metadata JSON
+ *   mcp:session:<id>:owner         owning pod ID
+ *   mcp:session:<id>:conversations hash of conversation ID -> JSON
+ *   mcp:session:<id>:recording     list of recorded tool calls (JSON)
+ *   mcp:session:<id>:ledger        resources the session created (JSON array)
+ * All of them expire together after the idle timeout; every save pushes it out.
+ */
+export class RedisSessionStore implements SessionStore {
+  readonly kind = 'redis' as const;
+
+  constructor(
+    readonly client: RedisClient,
+    private readonly ttlMs: number,
+    private readonly prefix = 'mcp:'
+  ) {}
+
+  static async connect(url: string, ttlMs: number): Promise<RedisSessionStore> {
+    const client: RedisClient = createClient({ url });
+    client.on('error', err => {
+      log.error('Client error', { error: err.message });
+    });
+    await client.connect();
+    log.info('Connected', { host: new URL(url).host });
+    return new RedisSessionStore(client, ttlMs);
+  }
+
+  private sessionKeys(sessionId: string) {
+    const base = `${this.prefix}session:${sessionId}`;
+    return {
+      meta: base,
+      owner: `${base}:owner`,
+      conversations: `${base}:conversations`,
+      recording: `${base}:recording`,
+      ledger: `${base}:ledger`
+    };
+  }
+
+  private podKey(podId: string) {
+    return `${this.prefix}pod:${podId}`;
+  }
+
+  async getSession(sessionId: string): Promise<StoredSession | undefined> {
+    const keys = this.sessionKeys(sessionId);
+    const [meta, owner] = await Promise.all([this.client.get(keys.meta), this.client.get(keys.owner)]);
+    if (!meta) return undefined;
+    return { ...JSON.parse(meta), ownerPodId: owner ?? undefined };
+  }
+
+  async saveSession(session: StoredSession): Promise<void> {
+    const keys = this.sessionKeys(session.sessionId);
+    const { ownerPodId: _ignored, ...meta } = session;
+    await this.client.multi()
+      .set(keys.meta, JSON.stringify(meta), { expiration: { type: 'PX', value: this.ttlMs } })
+      .pExpire(keys.owner, this.ttlMs)
+      .pExpire(keys.conversations, this.ttlMs)
+      .pExpire(keys.recording, this.ttlMs)
+      .pExpire(keys.ledger, this.ttlMs)
+      .exec();
+  }
+
+  async claimSession(sessionId: string, podId: string | undefined, expectedOwner: string | undefined): Promise<boolean> {
+    const result = await this.client.eval(CLAIM_SCRIPT, {
+      keys: [this.sessionKeys(sessionId).owner],
+      arguments: [expectedOwner ?? '', podId ?? '', String(this.ttlMs)]
+    });
+    return result === 1;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const keys = this.sessionKeys(sessionId);
+    await this.client.del([keys.meta, keys.owner, keys.conversations, keys.recording, keys.ledger]);
+  }
+
+  async getConversations(sessionId: string): Promise<Conversation[]> {
+    const all = await this.client.hGetAll(this.sessionKeys(sessionId).conversations);
+    return Object.values(all).map(raw => JSON.parse(raw));
+  }
+
+  async saveConversation(sessionId: string, conversation: Conversation): Promise<void> {
+    const key = this.sessionKeys(sessionId).conversations;
+    await this.client.multi()
+      .hSet(key, conversation.id, JSON.stringify(conversation))
+      .pExpire(key, this.ttlMs)
+      .exec();
+  }
+
+  async getRecording(sessionId: string): Promise<RecordedCall[]> {
+    const all = await this.client.lRange(this.sessionKeys(sessionId).recording, 0, -1);
+    return all.map(raw => JSON.parse(raw));
+  }
+
+  async appendRecording(sessionId: string, call: RecordedCall): Promise<void> {
+    const key = this.sessionKeys(sessionId).recording;
+    await this.client.multi()
+      .rPush(key, JSON.stringify(call))
+      .pExpire(key, this.ttlMs)
+      .exec();
+  }
+
+  async clearRecording(sessionId: string): Promise<void> {
+    await this.client.del(this.sessionKeys(sessionId).recording);
+  }
+
+  async getLedger(sessionId: string): Promise<TrackedResource[]> {
+    const raw = await this.client.get(this.sessionKeys(sessionId).ledger);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  async saveLedger(sessionId: string, resources: TrackedResource[]): Promise<void> {
+    await this.client.set(this.sessionKeys(sessionId).ledger, JSON.stringify(resources), {
+      expiration: { type: 'PX', value: this.ttlMs }
+    });
+  }
+
+  async registerPod(pod: PodInfo, ttlMs: number): Promise<void> {
+    await this.client.set(this.podKey(pod.id), JSON.stringify(pod), { expiration: { type: 'PX', value: ttlMs } });
+  }
+
+  async getPod(podId: string): Promise<PodInfo | undefined> {
+    const raw = await this.client.get(this.podKey(podId));
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  async removePod(podId: string): Promise<void> {
+    await this.client.del(this.podKey(podId));
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
@@ -0,0 +1,96 @@
+import os from 'os';
+import type { Conversation, PingOneConfig } from '../mcp/sessionManager.js';
+import type { RecordedCall } from '../playbooks/recording.js';
+import type { TrackedResource } from '../mcp/resourceLedger.js';
+import type { SessionUser } from '../auth/oidc.js';
+import { MemorySessionStore } from './memorySessionStore.js';
+import { RedisSessionStore } from './redisSessionStore.js';
+
+/**
+ * The part of a user session that can outlive the process holding it. Live
+ * state (MCP client, sockets, pending prompts) stays on the owning pod.
+ */
+export interface StoredSession {
+  sessionId: string;
+  /** Pod currently holding the session's MCP client and sockets */
+  ownerPodId?: string;
+  createdAt: number;
+  lastActivity: number;
+  llmProviderId?: string;
+  activeConversationId?: string;
+  /** Config of the active environment */
+  pingoneConfig?: PingOneConfig;
+  /** Every named environment the session has connected, active one included */
+  environments?: Record<string, PingOneConfig>;
+  activeEnvironment?: string;
+  /** Identity from OIDC login, when it is enabled */
+  user?: SessionUser;
+}
+
+/** A running server instance, as advertised to the other pods */
+export interface PodInfo {
+  id: string;
+  /** Public base URL of this pod, used to redirect browsers to the owner */
+  address?: string;
+}
+
+/**
+ * Shared persistence for session metadata and conversations. Ownership is
+ * only changed through claimSession so two pods can't both take a session.
+ */
+export interface SessionStore {
+  readonly kind: 'memory' | 'redis';
+  getSession(sessionId: string): Promise<StoredSession | undefined>;
+  /** Write metadata and refresh expiry; ownerPodId is ignored */
+  saveSession(session: StoredSession): Promise<void>;
+  /**
+   * Set the owner if it is still `expectedOwner` (undefined means unowned).
+   * Pass `podId` undefined to release. Resolves to whether the swap happened.
+   */
+  claimSession(sessionId: string, podId: string | undefined, expectedOwner: string | undefined): Promise<boolean>;
+  deleteSession(sessionId: string): Promise<void>;
+  getConversations(sessionId: string): Promise<Conversation[]>;
+  saveConversation(sessionId: string, conversation: Conversation): Promise<void>;
+  getRecording(sessionId: string): Promise<RecordedCall[]>;
+  appendRecording(sessionId: string, call: RecordedCall): Promise<void>;
+  clearRecording(sessionId: string): Promise<void>;
+  getLedger(sessionId: string): Promise<TrackedResource[]>;
+  /** Replace the whole ledger; teardown removes entries from the middle */
+  saveLedger(sessionId: string, resources: TrackedResource[]): Promise<void>;
+  /** Advertise a pod as alive for ttlMs */
+  registerPod(pod: PodInfo, ttlMs: number): Promise<void>;
+  getPod(podId: string): Promise<PodInfo | undefined>;
+  removePod(podId: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Raised when a session is held by another live pod. Callers redirect the
+ * client there or turn it away.
+ */
+export class SessionOwnedElsewhereError extends Error {
+  constructor(readonly sessionId: string, readonly owner: PodInfo) {
+    super(`Session ${sessionId} is active on pod ${owner.id}`);
+    this.name = 'SessionOwnedElsewhereError';
+  }
+}
+
+/** POD_ID defaults to the hostname, which is the pod name on Kubernetes */
+export function podFromEnv(env: NodeJS.ProcessEnv = process.env): PodInfo {
+  return {
+    id: env.POD_ID || os.hostname(),
+    address: env.POD_ADDRESS || undefined
+  };
+}
+
+/** Build the store selected by SESSION_STORE (memory or redis) */
+export async function createSessionStore(ttlMs: number, env: NodeJS.ProcessEnv = process.env): Promise<SessionStore> {
+  const kind = env.SESSION_STORE || 'memory';
+  if (kind === 'memory') {
+    return new MemorySessionStore(ttlMs);
+  }
+  if (kind === 'redis') {
+    return RedisSessionStore.connect(env.REDIS_URL || 'redis://localhost:6379', ttlMs);
+  }
+  throw new Error(`SESSION_STORE must be "memory" or "redis", got "${kind}"`);
+}
@@ -0,0 +1,29 @@
+/**
+ * Errors a caller can act on, so REST and WebSocket answers can say what
+ * went wrong instead of a generic failure. Anything else is a 500 /
+ * `request_failed`.
+ */
+
+/** The named playbook, environment, conversation, ... doesn't exist. REST 404, WS `not_found`. */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** The request itself is malformed or not allowed here. REST 400, WS `invalid_request`. */
+export class InvalidRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/** The session has no connected MCP server for this yet. REST 409, WS `not_configured`. */
+export class NotConfiguredError extends Error {
+  constructor(message = 'PingOne not configured. Please provide configuration first.') {
+    super(message);
+    this.name = 'NotConfiguredError';
+  }
+}
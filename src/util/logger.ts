@@ -0,0 +1,113 @@
+import { redact } from './redact.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Context attached to every line: sessionId, environment, tool, ... */
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Same component, with more context fields */
+  child(fields: LogFields): Logger;
+  isLevelEnabled(level: LogLevel): boolean;
+}
+
+export interface LoggerConfig {
+  level: LogLevel | 'silent';
+  /** Per-component overrides; `mcp` also covers `mcp.stdio` unless that has its own */
+  components: Record<string, LogLevel | 'silent'>;
+  /** `json` (one object per line) or `text` for reading in a terminal */
+  format: 'json' | 'text';
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+function parseLevel(value: string | undefined, name: string): LogLevel | 'silent' | undefined {
+  if (!value) return undefined;
+  const level = value.trim().toLowerCase();
+  if (!(level in LEVELS)) {
+    throw new Error(`${name} must be one of ${Object.keys(LEVELS).join(', ')}`);
+  }
+  return level as LogLevel | 'silent';
+}
+
+/**
+ * LOG_LEVEL sets the default level, LOG_LEVELS overrides it per component
+ * (`session=debug,mcp.stdio=warn`) and LOG_FORMAT picks `json` or `text`.
+ */
+export function loggerConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LoggerConfig {
+  const components: LoggerConfig['components'] = {};
+  for (const entry of (env.LOG_LEVELS ?? '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const [component, level] = entry.split('=');
+    const parsed = parseLevel(level, `LOG_LEVELS entry "${entry}"`);
+    if (!component || !parsed) {
+      throw new Error(`LOG_LEVELS entries look like component=level, got "${entry}"`);
+    }
+    components[component.trim()] = parsed;
+  }
+  const format = env.LOG_FORMAT === 'text' ? 'text' : 'json';
+  return { level: parseLevel(env.LOG_LEVEL, 'LOG_LEVEL') ?? 'info', components, format };
+}
+
+// Read on first use so dotenv has loaded before the environment is consulted
+let config: LoggerConfig | undefined;
+
+function currentConfig(): LoggerConfig {
+  return (config ??= loggerConfigFromEnv());
+}
+
+/** Replace the configuration, e.g. from tests; undefined goes back to the environment */
+export function configureLogging(next?: LoggerConfig): void {
+  config = next;
+}
+
+function thresholdFor(component: string): number {
+  const { level, components } = currentConfig();
+  // Most specific configured prefix wins: mcp.stdio, then mcp, then LOG_LEVEL
+  for (let name = component; name; name = name.slice(0, Math.max(name.lastIndexOf('.'), 0))) {
+    if (components[name]) return LEVELS[components[name]];
+  }
+  return LEVELS[level];
+}
+
+function serializable(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function write(level: LogLevel, component: string, message: string, fields: LogFields): void {
+  const safeFields = redact(Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, serializable(value)])));
+  const safeMessage = redact(message);
+  const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+  if (currentConfig().format === 'text') {
+    const context = Object.keys(safeFields).length > 0 ? ` ${JSON.stringify(safeFields)}` : '';
+    stream.write(`${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} [${component}] ${safeMessage}${context}\n`);
+    return;
+  }
+  stream.write(JSON.stringify({ time: new Date().toISOString(), level, component, msg: safeMessage, ...safeFields }) + '\n');
+}
+
+/**
+ * A logger for one component. Every line is redacted with `redact` before it
+ * is written, fields and message alike, so arguments, prompt responses and
+ * MCP output can be logged as they are.
+ */
+export function createLogger(component: string, fields: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (message: string, extra: LogFields = {}) => {
+    if (LEVELS[level] < thresholdFor(component)) return;
+    write(level, component, message, { ...fields, ...extra });
+  };
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: more => createLogger(component, { ...fields, ...more }),
+    isLevelEnabled: level => LEVELS[level] >= thresholdFor(component)
+  };
+}
@@ -0,0 +1,108 @@
+/** Replacement for values that must never leave the process */
+export const REDACTED = '[REDACTED]';
+
+// A key is secret when its last word is one of these, so `clientSecret` and
+// `refresh_token` are masked but `tokenEndpointAuthMethod` is not
+const SECRET_KEY_WORDS = new Set([
+  'password',
+  'passwd',
+  'passphrase',
+  'secret',
+  'token',
+  'authorization',
+  'credential',
+  'credentials',
+  'cookie',
+  'apikey',
+  'privatekey'
+]);
+
+// Bearer headers and JWTs that end up inside free text
+const SECRET_VALUE_PATTERNS = [
+  /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/g,
+  /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g
+];
+
+// `password=...`, `client_secret: ...` and `"token":"..."` in process output and query strings
+const ASSIGNMENT_KEY = /\b([A-Za-z0-9_-]+)["']?\s*[=:]\s*/g;
+const ASSIGNMENT_VALUE = /^("[^"]*"|'[^']*'|[^\s,;&"'{}[\]]+)/;
+
+const MAX_DEPTH = 10;
+
+export function isSecretKey(key: string): boolean {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[\s_.-]+/).filter(Boolean);
+  return SECRET_KEY_WORDS.has(words[words.length - 1] ?? '') || SECRET_KEY_WORDS.has(words.slice(-2).join(''));
+}
+
+function maskAssignments(text: string): string {
+  let masked = '';
+  let copied = 0;
+  for (const match of text.matchAll(ASSIGNMENT_KEY)) {
+    const start = match.index! + match[0].length;
+    if (start <= copied || !isSecretKey(match[1])) continue;
+    const value = ASSIGNMENT_VALUE.exec(text.slice(start));
+    if (!value) continue;
+    masked += text.slice(copied, start) + REDACTED;
+    copied = start + value[0].length;
+  }
+  return masked + text.slice(copied);
+}
+
+function redactString(value: string, depth: number): string {
+  // Prompt responses carry form values as JSON inside a text field
+  const trimmed = value.trim();
+  if ((trimmed.startsWith('{') && trimmed.endsWith('}')) || (trimmed.startsWith('[') && trimmed.endsWith(']'))) {
+    try {
+      return JSON.stringify(redact(JSON.parse(trimmed), depth + 1));
+    } catch {
+      // Not JSON after all; treat it as text
+    }
+  }
+  return maskAssignments(SECRET_VALUE_PATTERNS.reduce((text, pattern) => text.replace(pattern, REDACTED), value));
+}
+
+/**
+ * Deep copy of `value` with password-, token- and secret-like keys replaced,
+ * and bearer tokens, JWTs and `secret=value` pairs masked inside strings.
+ * Strings holding JSON are redacted as JSON. Safe for logs and audit
+ * records; never use the result to make a call.
+ */
+export function redact<T>(value: T, depth = 0): T {
+  if (typeof value === 'string') {
+    return redactString(value, depth) as T;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]' as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1)) as T;
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = isSecretKey(key) && item !== null && item !== undefined && item !== '' ? REDACTED : redact(item, depth + 1);
+  }
+  return copy as T;
+}
+
+/**
+ * Deep copy of `value` with only the values under password-, token- and
+ * secret-like keys replaced. Unlike `redact` nothing else is touched (no
+ * pattern matching inside strings, no depth limit), so once the masked
+ * values are supplied again the result can be used to repeat a call.
+ */
+export function maskSecretKeys<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => maskSecretKeys(item)) as T;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = isSecretKey(key) && item !== null && item !== undefined && item !== '' ? REDACTED : maskSecretKeys(item);
+  }
+  return copy as T;
+}
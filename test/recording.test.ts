@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { RecordedCall, recordingToPlaybook } from '../src/playbooks/recording.js';
+import { maskSecretKeys } from '../src/util/redact.js';
+
+const ENVIRONMENT_ID = 'env-1';
+
+function recorded(tool: string, args: Record<string, unknown>, ids: RecordedCall['ids'] = []): RecordedCall {
+  return { tool, args: maskSecretKeys(args), ids, environmentId: ENVIRONMENT_ID, origin: 'chat', recordedAt: Date.now() };
+}
+
+describe('recordingToPlaybook', () => {
+  test('replays free text as it was sent', () => {
+    const playbook = recordingToPlaybook([
+      recorded('create-application', { environmentId: ENVIRONMENT_ID, description: 'Uses token: abc123 for the demo' })
+    ]);
+    assert.equal(playbook.steps[0].args.description, 'Uses token: abc123 for the demo');
+    assert.equal(playbook.steps[0].args.environmentId, '{{ vars.environmentId }}');
+  });
+
+  test('gives every masked value a variable of its own', () => {
+    const playbook = recordingToPlaybook([
+      recorded('create-users', { users: [{ username: 'a', password: 'pw-first' }, { username: 'b', password: 'pw-second' }] }),
+      recorded('create-users', { users: [{ username: 'c', password: 'pw-third' }] })
+    ]);
+    assert.deepEqual(playbook.steps[0].args.users, [
+      { username: 'a', password: '{{ vars.create_users_1_users_0_password }}' },
+      { username: 'b', password: '{{ vars.create_users_1_users_1_password }}' }
+    ]);
+    assert.deepEqual(playbook.steps[1].args.users, [{ username: 'c', password: '{{ vars.create_users_2_users_0_password }}' }]);
+    assert.deepEqual(Object.keys(playbook.variables).sort(), [
+      'create_users_1_users_0_password',
+      'create_users_1_users_1_password',
+      'create_users_2_users_0_password',
+      'environmentId'
+    ]);
+    assert.ok(!JSON.stringify(playbook).includes('pw-'), 'secrets are not recorded');
+  });
+
+  test('keeps JSON strings and deeply nested arguments intact', () => {
+    let nested: Record<string, unknown> = { leaf: 'value' };
+    for (let i = 0; i < 12; i++) nested = { child: nested };
+    const json = '{"b": 1, "a": [1, 2]}';
+    const playbook = recordingToPlaybook([recorded('update-settings', { json, nested })]);
+    assert.equal(playbook.steps[0].args.json, json);
+    assert.deepEqual(playbook.steps[0].args.nested, nested);
+  });
+
+  test('refers to IDs returned by earlier steps', () => {
+    const playbook = recordingToPlaybook([
+      recorded('create-application', { name: 'App' }, [{ id: 'app-12345678', path: 'id' }]),
+      recorded('create-grant', { applicationId: 'app-12345678', path: `/applications/app-12345678/grants` })
+    ]);
+    assert.deepEqual(playbook.steps[1].args, {
+      applicationId: '{{ steps.create-application_1.output.id }}',
+      path: '/applications/{{ steps.create-application_1.output.id }}/grants'
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * RedisSessionStore against a real server. Skipped unless REDIS_URL is set:
+ *
+ *   redis-server &
+ *   REDIS_URL=redis://localhost:6379 npm test
+ *
+ * Every run works under its own key prefix and deletes it afterwards, so a
+ * shared development Redis is safe to use.
+ */
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { v4 as uuid } from 'uuid';
+import { RedisSessionStore } from '../src/store/redisSessionStore.js';
+import { SessionOwnedElsewhereError } from '../src/store/sessionStore.js';
+import { SessionManager } from '../src/mcp/sessionManager.js';
+import { AuditLog } from '../src/audit/auditLog.js';
+
+const REDIS_URL = process.env.REDIS_URL;
+const TTL_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('RedisSessionStore', { skip: REDIS_URL ? false : 'set REDIS_URL to run against a Redis server' }, () => {
+  const prefix = `mcp-test-${uuid()}:`;
+  let store: RedisSessionStore;
+
+  // A second connection, as another pod would have
+  const connect = async () => {
+    const connected = await RedisSessionStore.connect(REDIS_URL!, TTL_MS);
+    return new RedisSessionStore(connected.client, TTL_MS, prefix);
+  };
+
+  before(async () => {
+    store = await connect();
+  });
+
+  after(async () => {
+    const keys: string[] = [];
+    for await (const batch of store.client.scanIterator({ MATCH: `${prefix}*` })) {
+      keys.push(...batch);
+    }
+    if (keys.length > 0) await store.client.del(keys);
+    await store.close();
+  });
+
+  test('claimSession only swaps the owner it expects', async () => {
+    const sessionId = uuid();
+    await store.saveSession({ sessionId, createdAt: Date.now(), lastActivity: Date.now() });
+
+    assert.equal(await store.claimSession(sessionId, 'a', undefined), true);
+    assert.equal((await store.getSession(sessionId))?.ownerPodId, 'a');
+
+    // Someone else's view of the owner is stale: no swap
+    assert.equal(await store.claimSession(sessionId, 'b', undefined), false);
+    assert.equal(await store.claimSession(sessionId, 'b', 'c'), false);
+    assert.equal((await store.getSession(sessionId))?.ownerPodId, 'a');
+
+    assert.equal(await store.claimSession(sessionId, 'b', 'a'), true);
+    assert.equal((await store.getSession(sessionId))?.ownerPodId, 'b');
+
+    // Releasing is a swap to no owner
+    assert.equal(await store.claimSession(sessionId, undefined, 'a'), false);
+    assert.equal(await store.claimSession(sessionId, undefined, 'b'), true);
+    assert.equal((await store.getSession(sessionId))?.ownerPodId, undefined);
+  });
+
+  test('only one of two racing claims wins', async () => {
+    const sessionId = uuid();
+    const other = await connect();
+    try {
+      const results = await Promise.all([
+        store.claimSession(sessionId, 'a', undefined),
+        other.claimSession(sessionId, 'b', undefined)
+      ]);
+      assert.deepEqual(results.filter(Boolean), [true]);
+    } finally {
+      await other.close();
+    }
+  });
+
+  test('saving a session pushes out the owner key expiry', async () => {
+    const sessionId = uuid();
+    const ownerKey = `${prefix}session:${sessionId}:owner`;
+    await store.claimSession(sessionId, 'a', undefined);
+    await store.client.pExpire(ownerKey, 1000);
+    assert.ok(await store.client.pTTL(ownerKey) <= 1000);
+
+    await store.saveSession({ sessionId, createdAt: Date.now(), lastActivity: Date.now() });
+    assert.ok(await store.client.pTTL(ownerKey) > 1000);
+  });
+
+  test('a pod stays registered only while it keeps sending heartbeats', async () => {
+    const pod = { id: `pod-${uuid()}`, address: 'https://pod.example.com' };
+    const podKey = `${prefix}pod:${pod.id}`;
+
+    await store.registerPod(pod, 500);
+    assert.deepEqual(await store.getPod(pod.id), pod);
+    const first = await store.client.pTTL(podKey);
+    assert.ok(first > 0 && first <= 500);
+
+    await sleep(250);
+    await store.registerPod(pod, 500);
+    assert.ok(await store.client.pTTL(podKey) > 400, 'the heartbeat refreshes the TTL');
+
+    await sleep(700);
+    assert.equal(await store.getPod(pod.id), undefined);
+  });
+
+  test('a session owned by a live pod is refused elsewhere and taken over once that pod is gone', async () => {
+    const sessionId = uuid();
+    const other = await connect();
+    const podA = new SessionManager({ command: 'true' }, store, { id: `a-${uuid()}` }, undefined, new AuditLog(undefined));
+    const podB = new SessionManager({ command: 'true' }, other, { id: `b-${uuid()}` }, undefined, new AuditLog(undefined));
+    try {
+      // Both constructors register their pod; wait for the heartbeat to land
+      await sleep(100);
+      await podA.getOrCreateSession(sessionId);
+
+      await assert.rejects(podB.getOrCreateSession(sessionId), (e: unknown) => {
+        assert.ok(e instanceof SessionOwnedElsewhereError);
+        assert.equal(e.owner.id, podA.pod.id);
+        return true;
+      });
+
+      // Pod A dies without releasing: its registration lapses, the owner key does not
+      await store.removePod(podA.pod.id);
+      const session = await podB.getOrCreateSession(sessionId);
+      assert.equal(session.sessionId, sessionId);
+      assert.equal((await store.getSession(sessionId))?.ownerPodId, podB.pod.id);
+    } finally {
+      await podA.shutdown();
+      await podB.shutdown();
+      await other.close();
+    }
+  });
+});
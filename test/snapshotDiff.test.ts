@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Snapshot } from '../src/snapshots/snapshot.js';
+import { diffSnapshots } from '../src/snapshots/snapshotDiff.js';
+
+function snapshot(environmentId: string, resources: Snapshot['resources']): Snapshot {
+  return { id: `snap-${environmentId}`, createdAt: new Date().toISOString(), sessionId: 's', environmentId, resources, errors: {} };
+}
+
+describe('diffSnapshots', () => {
+  test('matches by ID within one environment', () => {
+    const diff = diffSnapshots(
+      snapshot('env-1', { groups: { g1: { id: 'g1', name: 'Admins' }, g2: { id: 'g2', name: 'Old' } } }),
+      snapshot('env-1', { groups: { g1: { id: 'g1', name: 'Administrators' }, g3: { id: 'g3', name: 'New' } } })
+    );
+    assert.equal(diff.matchedBy, 'id');
+    assert.deepEqual(diff.added, { groups: [{ id: 'g3', name: 'New' }] });
+    assert.deepEqual(diff.removed, { groups: [{ id: 'g2', name: 'Old' }] });
+    assert.deepEqual(diff.changed, {
+      groups: [{ id: 'g1', name: 'Administrators', changes: [{ path: 'name', before: 'Admins', after: 'Administrators' }] }]
+    });
+  });
+
+  test('keeps resources that share a name across environments', () => {
+    const diff = diffSnapshots(
+      snapshot('env-1', {
+        policies: {
+          a1: { id: 'a1', name: 'Default', level: 1 },
+          a2: { id: 'a2', name: 'Default', level: 2 },
+          a3: { id: 'a3', name: 'Default', level: 3 }
+        }
+      }),
+      snapshot('env-2', {
+        policies: {
+          b2: { id: 'b2', name: 'Default', level: 2 },
+          b4: { id: 'b4', name: 'Default', level: 4 }
+        }
+      })
+    );
+    assert.equal(diff.matchedBy, 'name');
+    // level 2 exists on both sides; of the rest one pair differs and one is gone
+    assert.deepEqual(diff.changed, {
+      policies: [{ id: 'b4', name: 'Default', changes: [{ path: 'level', before: 1, after: 4 }] }]
+    });
+    assert.deepEqual(diff.removed, { policies: [{ id: 'a3', name: 'Default' }] });
+    assert.deepEqual(diff.added, {});
+    assert.deepEqual(diff.summary, { added: 0, removed: 1, changed: 1 });
+  });
+
+  test('reports every extra resource of a shared name as added', () => {
+    const diff = diffSnapshots(
+      snapshot('env-1', { groups: { a1: { id: 'a1', name: 'Default' } } }),
+      snapshot('env-2', { groups: { b1: { id: 'b1', name: 'Default' }, b2: { id: 'b2', name: 'Default' }, b3: { id: 'b3', name: 'Default' } } })
+    );
+    assert.deepEqual(diff.added, { groups: [{ id: 'b2', name: 'Default' }, { id: 'b3', name: 'Default' }] });
+    assert.deepEqual(diff.changed, {});
+  });
+
+  test('skips types either snapshot could not read in full', () => {
+    const from = snapshot('env-1', { users: { u1: { id: 'u1', username: 'a' } } });
+    const to = { ...snapshot('env-1', { users: {} }), truncated: ['users'] };
+    assert.deepEqual(diffSnapshots(from, to).skipped, ['users']);
+  });
+});